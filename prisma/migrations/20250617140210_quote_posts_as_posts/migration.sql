@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "quotedPostId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "posts_quotedPostId_idx" ON "posts"("quotedPostId");
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_quotedPostId_fkey" FOREIGN KEY ("quotedPostId") REFERENCES "posts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Pindahkan quote lama dari tabel reposts menjadi postingan
+INSERT INTO "posts" ("userId", "quotedPostId", "content", "createdAt")
+SELECT "userId", "postId", COALESCE("quoteContent", ''), "createdAt"
+FROM "reposts"
+WHERE "isQuotePost" = true;
+
+UPDATE "posts" p
+SET "repostCount" = GREATEST(p."repostCount" - q."total", 0)
+FROM (
+    SELECT "postId", COUNT(*)::INTEGER AS "total"
+    FROM "reposts"
+    WHERE "isQuotePost" = true
+    GROUP BY "postId"
+) q
+WHERE p."id" = q."postId";
+
+DELETE FROM "reposts" WHERE "isQuotePost" = true;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "hashtags" (
+    "id" SERIAL NOT NULL,
+    "tag" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hashtags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "post_hashtags" (
+    "postId" INTEGER NOT NULL,
+    "hashtagId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_hashtags_pkey" PRIMARY KEY ("postId","hashtagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hashtags_tag_key" ON "hashtags"("tag");
+
+-- CreateIndex
+CREATE INDEX "post_hashtags_hashtagId_createdAt_idx" ON "post_hashtags"("hashtagId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "post_hashtags_createdAt_idx" ON "post_hashtags"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "post_hashtags" ADD CONSTRAINT "post_hashtags_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_hashtags" ADD CONSTRAINT "post_hashtags_hashtagId_fkey" FOREIGN KEY ("hashtagId") REFERENCES "hashtags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
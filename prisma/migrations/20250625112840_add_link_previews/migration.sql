@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "linkPreviewId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "link_previews" (
+    "id" SERIAL NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "description" TEXT,
+    "imageUrl" TEXT,
+    "siteName" TEXT,
+    "isValid" BOOLEAN NOT NULL DEFAULT true,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "link_previews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "link_previews_url_key" ON "link_previews"("url");
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_linkPreviewId_fkey" FOREIGN KEY ("linkPreviewId") REFERENCES "link_previews"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "media" ADD COLUMN     "draftId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "post_drafts" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "scheduledAt" TIMESTAMP(3),
+    "publishingAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "media_draftId_idx" ON "media"("draftId");
+
+-- CreateIndex
+CREATE INDEX "post_drafts_userId_createdAt_idx" ON "post_drafts"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "post_drafts_scheduledAt_idx" ON "post_drafts"("scheduledAt");
+
+-- AddForeignKey
+ALTER TABLE "media" ADD CONSTRAINT "media_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "post_drafts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_drafts" ADD CONSTRAINT "post_drafts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
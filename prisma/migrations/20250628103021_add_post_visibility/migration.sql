@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'public';
+
+-- AlterTable
+ALTER TABLE "post_drafts" ADD COLUMN     "visibility" TEXT NOT NULL DEFAULT 'public';
+
+-- CreateTable
+CREATE TABLE "post_mentions" (
+    "postId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "post_mentions_pkey" PRIMARY KEY ("postId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "post_mentions_userId_idx" ON "post_mentions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "post_mentions" ADD CONSTRAINT "post_mentions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_mentions" ADD CONSTRAINT "post_mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
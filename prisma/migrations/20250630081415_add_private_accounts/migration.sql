@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "isPrivate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "follow_requests" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "followingId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "follow_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "follow_requests_followingId_createdAt_idx" ON "follow_requests"("followingId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "follow_requests_userId_followingId_key" ON "follow_requests"("userId", "followingId");
+
+-- AddForeignKey
+ALTER TABLE "follow_requests" ADD CONSTRAINT "follow_requests_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "follow_requests" ADD CONSTRAINT "follow_requests_followingId_fkey" FOREIGN KEY ("followingId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "blocks" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "blockedId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mutes" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "mutedId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mutes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "blocks_blockedId_idx" ON "blocks"("blockedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "blocks_userId_blockedId_key" ON "blocks"("userId", "blockedId");
+
+-- CreateIndex
+CREATE INDEX "mutes_mutedId_idx" ON "mutes"("mutedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mutes_userId_mutedId_key" ON "mutes"("userId", "mutedId");
+
+-- AddForeignKey
+ALTER TABLE "blocks" ADD CONSTRAINT "blocks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blocks" ADD CONSTRAINT "blocks_blockedId_fkey" FOREIGN KEY ("blockedId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mutes" ADD CONSTRAINT "mutes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mutes" ADD CONSTRAINT "mutes_mutedId_fkey" FOREIGN KEY ("mutedId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
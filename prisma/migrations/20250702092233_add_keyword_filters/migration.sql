@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "keyword_filters" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "keyword" TEXT NOT NULL,
+    "wholeWord" BOOLEAN NOT NULL DEFAULT true,
+    "scopes" TEXT[],
+    "action" TEXT NOT NULL DEFAULT 'hide',
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "keyword_filters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "keyword_filters_userId_keyword_key" ON "keyword_filters"("userId", "keyword");
+
+-- AddForeignKey
+ALTER TABLE "keyword_filters" ADD CONSTRAINT "keyword_filters_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'user';
+
+-- Moderator yang sudah ada dipindahkan ke role
+UPDATE "users" SET "role" = 'moderator' WHERE "isModerator" = true;
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "isModerator";
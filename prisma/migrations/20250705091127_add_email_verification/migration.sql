@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "pendingEmail" TEXT,
+ADD COLUMN     "verificationSentAt" TIMESTAMP(3);
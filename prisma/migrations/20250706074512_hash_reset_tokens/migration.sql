@@ -0,0 +1,5 @@
+-- Token lama disimpan sebagai JWT mentah dan tidak bisa dipakai lagi
+UPDATE "users" SET "resetToken" = NULL, "resetTokenExpiry" = NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_resetToken_key" ON "users"("resetToken");
@@ -0,0 +1,21 @@
+-- Token lama disimpan sebagai JWT mentah; semua user harus login ulang
+DELETE FROM "refresh_tokens";
+
+-- DropIndex
+DROP INDEX "refresh_tokens_token_key";
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" DROP COLUMN "token",
+ADD COLUMN     "tokenHash" TEXT NOT NULL,
+ADD COLUMN     "familyId" TEXT NOT NULL,
+ADD COLUMN     "replacedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_tokens_tokenHash_key" ON "refresh_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familyId_idx" ON "refresh_tokens"("familyId");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_expiresAt_idx" ON "refresh_tokens"("expiresAt");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- Family refresh token yang sudah ada dijadikan sesi tanpa info perangkat
+INSERT INTO "sessions" ("id", "userId", "createdAt", "lastUsedAt", "expiresAt", "revokedAt")
+SELECT "familyId", MIN("userId"), MIN("createdAt"), MAX("createdAt"), MAX("expiresAt"),
+       CASE WHEN BOOL_AND("revokedAt" IS NOT NULL) THEN MAX("revokedAt") END
+FROM "refresh_tokens"
+GROUP BY "familyId";
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "sessions"("userId");
+
+-- CreateIndex
+CREATE INDEX "sessions_expiresAt_idx" ON "sessions"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
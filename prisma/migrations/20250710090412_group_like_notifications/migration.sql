@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "groupKey" TEXT,
+ADD COLUMN     "groupStartedAt" TIMESTAMP(3);
+
+-- Grup like yang belum dibaca: yang terbaru per postingan menjadi grup
+-- aktif. Pelakunya dihitung dari like sejak notifikasi like terakhir yang
+-- sudah dibaca untuk postingan yang sama.
+UPDATE "notifications" AS n
+SET "groupKey" = 'like:' || n."postId",
+    "groupStartedAt" = COALESCE(
+      (
+        SELECT MAX(r."createdAt")
+        FROM "notifications" AS r
+        WHERE r."postId" = n."postId" AND r."type" = 'like' AND r."isRead"
+      ),
+      '1970-01-01'
+    )
+WHERE n."id" IN (
+  SELECT DISTINCT ON ("postId") "id"
+  FROM "notifications"
+  WHERE "type" = 'like' AND NOT "isRead" AND "postId" IS NOT NULL
+  ORDER BY "postId", "createdAt" DESC, "id" DESC
+);
+
+-- Jumlah pelaku dihitung ulang dari like yang masih ada
+UPDATE "notifications" AS n
+SET "actorCount" = GREATEST(1, (
+  SELECT COUNT(*)
+  FROM "likes" AS l
+  WHERE l."postId" = n."postId"
+    AND l."userId" <> n."userId"
+    AND l."createdAt" >= n."groupStartedAt"
+))
+WHERE n."groupKey" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_groupKey_key" ON "notifications"("groupKey");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "post_drafts" ADD COLUMN     "publishAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "publishError" TEXT;
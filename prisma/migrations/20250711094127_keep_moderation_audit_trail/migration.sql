@@ -0,0 +1,18 @@
+-- Laporan dan log moderasi tidak ikut terhapus bersama akun
+-- DropForeignKey
+ALTER TABLE "reports" DROP CONSTRAINT "reports_reportedUserId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "moderation_actions" DROP CONSTRAINT "moderation_actions_moderatorId_fkey";
+
+-- AlterTable
+ALTER TABLE "reports" ALTER COLUMN "reportedUserId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "moderation_actions" ALTER COLUMN "moderatorId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reportedUserId_fkey" FOREIGN KEY ("reportedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
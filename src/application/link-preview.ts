@@ -0,0 +1,253 @@
+import { lookup } from "node:dns/promises";
+import http, { IncomingMessage } from "node:http";
+import https from "node:https";
+import { isIP } from "node:net";
+import { isPrivateAddress } from "../utils/link";
+
+export interface LinkPreviewData {
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+/**
+ * Pengambil metadata link preview. Bisa diganti lewat setLinkPreviewFetcher,
+ * misalnya dengan stub server lokal saat testing.
+ */
+export interface LinkPreviewFetcher {
+  fetch(url: string): Promise<LinkPreviewData | null>;
+}
+
+interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+interface HttpFetcherOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  // Hanya untuk testing dengan stub server di localhost
+  allowPrivateAddresses?: boolean;
+  // Resolver DNS; default dns.lookup, bisa diganti saat testing
+  resolve?: (hostname: string) => Promise<ResolvedAddress[]>;
+}
+
+const lookupAll = (hostname: string) => lookup(hostname, { all: true });
+
+/**
+ * Menolak dengan error timeout begitu signal dibatalkan. Dipakai untuk
+ * langkah yang tidak bisa dibatalkan sendiri seperti dns.lookup; hasilnya
+ * yang datang belakangan diabaikan.
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("Link preview timed out"));
+    if (signal.aborted) return onAbort();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+    .trim();
+
+const getAttribute = (tag: string, name: string) => {
+  const match = tag.match(
+    new RegExp(`${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+  );
+  return match ? match[2] ?? match[3] ?? match[4] : null;
+};
+
+/**
+ * Membaca tag <meta> OpenGraph dan Twitter card dari HTML.
+ */
+export const parseLinkPreview = (
+  html: string,
+  pageUrl: string
+): LinkPreviewData => {
+  const meta = new Map<string, string>();
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const key = getAttribute(tag, "property") ?? getAttribute(tag, "name");
+    const content = getAttribute(tag, "content");
+    if (key && content && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), decodeEntities(content));
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+  const image = meta.get("og:image") ?? meta.get("twitter:image") ?? null;
+
+  let imageUrl: string | null = null;
+  if (image) {
+    try {
+      imageUrl = new URL(image, pageUrl).toString();
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    title:
+      meta.get("og:title") ??
+      meta.get("twitter:title") ??
+      (titleTag ? decodeEntities(titleTag[1]) : null),
+    description:
+      meta.get("og:description") ??
+      meta.get("twitter:description") ??
+      meta.get("description") ??
+      null,
+    imageUrl,
+    siteName: meta.get("og:site_name") ?? new URL(pageUrl).hostname,
+  };
+};
+
+/**
+ * Fetcher default: request HTTP dengan timeout, batas ukuran, dan
+ * pemblokiran alamat private/loopback di setiap redirect. Koneksi dibuat
+ * ke alamat IP yang sudah diperiksa, bukan hasil resolve DNS ulang, agar
+ * tidak bisa diakali dengan DNS rebinding.
+ */
+export class HttpLinkPreviewFetcher implements LinkPreviewFetcher {
+  private readonly timeoutMs: number;
+  private readonly maxBytes: number;
+  private readonly maxRedirects: number;
+  private readonly allowPrivateAddresses: boolean;
+  private readonly resolve: (hostname: string) => Promise<ResolvedAddress[]>;
+
+  constructor(options: HttpFetcherOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 3000;
+    this.maxBytes = options.maxBytes ?? 512 * 1024;
+    this.maxRedirects = options.maxRedirects ?? 3;
+    this.allowPrivateAddresses = options.allowPrivateAddresses ?? false;
+    this.resolve = options.resolve ?? lookupAll;
+  }
+
+  private async resolvePublicAddress(
+    url: URL,
+    signal: AbortSignal
+  ): Promise<ResolvedAddress> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Unsupported URL protocol");
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+    const family = isIP(hostname);
+    const addresses = family
+      ? [{ address: hostname, family }]
+      : await abortable(this.resolve(hostname), signal);
+
+    if (
+      addresses.length === 0 ||
+      (!this.allowPrivateAddresses &&
+        addresses.some((a) => isPrivateAddress(a.address)))
+    ) {
+      throw new Error("Blocked URL address");
+    }
+    return addresses[0];
+  }
+
+  private request(url: URL, target: ResolvedAddress, signal: AbortSignal) {
+    const client = url.protocol === "https:" ? https : http;
+
+    return new Promise<IncomingMessage>((resolve, reject) => {
+      const req = client.request(
+        url,
+        {
+          signal,
+          headers: {
+            Accept: "text/html",
+            "User-Agent": "TwistLinkPreview/1.0",
+          },
+          // Host header dan SNI tetap memakai hostname dari URL
+          lookup: (_hostname, options, callback: any) => {
+            if (options.all) callback(null, [target]);
+            else callback(null, target.address, target.family);
+          },
+        },
+        resolve
+      );
+      req.on("error", reject);
+      req.end();
+    });
+  }
+
+  private async readBody(response: IncomingMessage) {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of response) {
+      chunks.push(chunk);
+      received += chunk.length;
+      if (received >= this.maxBytes) break;
+    }
+    response.destroy();
+
+    return Buffer.concat(chunks).subarray(0, this.maxBytes).toString("utf8");
+  }
+
+  async fetch(url: string) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      let currentUrl = new URL(url);
+      for (let hop = 0; hop <= this.maxRedirects; hop++) {
+        const target = await this.resolvePublicAddress(
+          currentUrl,
+          controller.signal
+        );
+        const response = await this.request(
+          currentUrl,
+          target,
+          controller.signal
+        );
+
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+        if (status >= 300 && status < 400 && location) {
+          response.destroy();
+          currentUrl = new URL(location, currentUrl);
+          continue;
+        }
+
+        const contentType = response.headers["content-type"] ?? "";
+        const isHtml = contentType.includes("text/html");
+        if (status < 200 || status >= 300 || !isHtml) {
+          response.destroy();
+          return null;
+        }
+
+        const html = await this.readBody(response);
+        return parseLinkPreview(html, currentUrl.toString());
+      }
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+let fetcher: LinkPreviewFetcher = new HttpLinkPreviewFetcher();
+
+export const getLinkPreviewFetcher = () => fetcher;
+
+export const setLinkPreviewFetcher = (next: LinkPreviewFetcher) => {
+  fetcher = next;
+};
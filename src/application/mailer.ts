@@ -0,0 +1,349 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+import tls from "node:tls";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Pengirim email. Transport dipilih lewat MAIL_DRIVER ("outbox" secara
+ * default, "smtp", atau "memory"), dan bisa diganti lewat setMailer,
+ * misalnya dengan MemoryOutboxTransport saat testing.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || "Twist <no-reply@localhost>";
+
+// Link di dalam email mengarah ke aplikasi frontend
+const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
+
+/**
+ * Membuat URL halaman frontend, misalnya frontendLink("/verify-email",
+ * { token }).
+ */
+export const frontendLink = (
+  pathname: string,
+  params: Record<string, string> = {}
+) => {
+  const url = new URL(pathname, FRONTEND_URL.replace(/\/*$/, "/"));
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const encodeBody = (content: string) =>
+  (Buffer.from(content).toString("base64").match(/.{1,76}/g) ?? []).join(
+    "\r\n"
+  );
+
+const addressOf = (mailbox: string) => {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+};
+
+// Alamat tanpa spasi atau karakter yang punya arti di header email maupun
+// perintah SMTP
+const EMAIL_ADDRESS_REGEX = /^[^\s<>()\[\],;:"\\@]+@[^\s<>()\[\],;:"\\@]+$/;
+
+/**
+ * Menolak alamat yang bisa menyisipkan header atau perintah SMTP baru,
+ * misalnya "a@b.com\r\nBcc: c@d.com".
+ */
+const assertMailbox = (mailbox: string) => {
+  if (
+    /[\x00-\x1f\x7f]/.test(mailbox) ||
+    !EMAIL_ADDRESS_REGEX.test(addressOf(mailbox))
+  ) {
+    throw new Error("Invalid email address");
+  }
+};
+
+/**
+ * Menyusun pesan MIME lengkap (header + body). Body dikodekan base64 agar
+ * aman untuk karakter non-ASCII dan batas panjang baris SMTP.
+ */
+export const buildMimeMessage = (from: string, message: MailMessage) => {
+  assertMailbox(from);
+  assertMailbox(message.to);
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${addressOf(from).split("@")[1]}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  const part = (type: string, content: string) =>
+    [
+      `Content-Type: ${type}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBody(content),
+    ].join("\r\n");
+
+  if (!message.html) {
+    return [...headers, part("text/plain", message.text)].join("\r\n");
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", message.text),
+    `--${boundary}`,
+    part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+};
+
+// Menyimpan email ke folder sebagai file .eml, untuk development lokal
+export class FileOutboxTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+    // Nama file diawali waktu kirim agar urut saat dibuka
+    const sentAt = new Date().toISOString().replace(/[:.]/g, "-");
+    await writeFile(
+      path.join(this.dir, `${sentAt}-${randomUUID()}.eml`),
+      buildMimeMessage(MAIL_FROM, message)
+    );
+  }
+}
+
+// Menyimpan email di memori, untuk testing
+export class MemoryOutboxTransport implements MailTransport {
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage) {
+    this.messages.push(message);
+  }
+
+  clear() {
+    this.messages.length = 0;
+  }
+}
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  // true: TLS sejak awal (port 465); false: STARTTLS jika server mendukung.
+  // Kredensial hanya dikirim lewat koneksi TLS.
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+type SmtpResponse = { code: number; text: string };
+
+/**
+ * Koneksi SMTP sederhana: membaca response per baris dan menunggu baris
+ * terakhir dari response multi-baris ("250-..." diikuti "250 ...").
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private pending: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error("SMTP connection timed out"))
+    );
+    // Sengaja tanpa setEncoding: socket yang sama dipakai ulang oleh TLS
+    // setelah STARTTLS dan harus tetap menerima Buffer
+    socket.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    socket.on("error", (error) => {
+      this.error = error;
+      this.flush();
+    });
+    socket.on("close", () => {
+      this.error = this.error ?? new Error("SMTP connection closed");
+      this.flush();
+    });
+  }
+
+  private flush() {
+    if (!this.pending) return;
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    const pending = this.pending;
+    if (last >= 0) {
+      const lines = this.lines.splice(0, last + 1);
+      this.pending = null;
+      pending.resolve({
+        code: Number(lines[last].slice(0, 3)),
+        text: lines.map((line) => line.slice(4)).join("\n"),
+      });
+    } else if (this.error) {
+      this.pending = null;
+      pending.reject(this.error);
+    }
+  }
+
+  read() {
+    return new Promise<SmtpResponse>((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  async command(line: string | null, expected: number[]) {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP error ${response.code}: ${response.text}`);
+    }
+    return response;
+  }
+
+  // Mengganti socket biasa dengan socket TLS setelah STARTTLS
+  async upgrade(host: string) {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+
+    const secure = tls.connect({ socket: plain, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  constructor(private readonly options: SmtpOptions) {}
+
+  private connect(timeoutMs: number) {
+    const { host, port, secure } = this.options;
+    return new Promise<net.Socket>((resolve, reject) => {
+      const onConnect = () => {
+        clearTimeout(timer);
+        resolve(socket);
+      };
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, onConnect)
+        : net.connect({ host, port }, onConnect);
+      const timer = setTimeout(
+        () => socket.destroy(new Error("SMTP connection timed out")),
+        timeoutMs
+      );
+      socket.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  async send(message: MailMessage) {
+    const { host, secure, user, pass, timeoutMs = 10000 } = this.options;
+    // Disusun sebelum terhubung agar alamat yang tidak valid langsung ditolak
+    const mime = buildMimeMessage(MAIL_FROM, message);
+    const connection = new SmtpConnection(
+      await this.connect(timeoutMs),
+      timeoutMs
+    );
+    let isTls = secure;
+
+    try {
+      await connection.command(null, [220]);
+      let hello = await connection.command("EHLO localhost", [250]);
+
+      if (!secure && /^STARTTLS$/im.test(hello.text)) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgrade(host);
+        isTls = true;
+        hello = await connection.command("EHLO localhost", [250]);
+      }
+
+      if (user && pass) {
+        // Tanpa TLS, AUTH PLAIN mengirim password apa adanya; bisa terjadi
+        // jika STARTTLS dihapus dari response EHLO oleh pihak di tengah
+        if (!isTls) throw new Error("SMTP server does not support TLS");
+        const credentials = Buffer.from(`\0${user}\0${pass}`).toString(
+          "base64"
+        );
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(MAIL_FROM)}>`, [250]);
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [
+        250, 251,
+      ]);
+      await connection.command("DATA", [354]);
+
+      // Baris yang diawali titik harus digandakan (dot-stuffing)
+      const data = mime.replace(/^\./gm, "..");
+      await connection.command(`${data}\r\n.`, [250]);
+      await connection.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+const createMailer = (): MailTransport => {
+  switch (process.env.MAIL_DRIVER) {
+    case "smtp":
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST as string,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+    case "memory":
+      return new MemoryOutboxTransport();
+    default:
+      return new FileOutboxTransport(process.env.MAIL_OUTBOX_DIR || "outbox");
+  }
+};
+
+let mailer: MailTransport = createMailer();
+
+export const getMailer = () => mailer;
+
+export const setMailer = (next: MailTransport) => {
+  mailer = next;
+};
@@ -0,0 +1,26 @@
+/**
+ * Menjalankan tugas latar belakang secara berkala. Error hanya dicatat
+ * agar tugas tetap berjalan pada interval berikutnya.
+ */
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  job: () => Promise<unknown>
+) => {
+  let running = false;
+
+  const run = async () => {
+    // Lewati jika eksekusi sebelumnya belum selesai
+    if (running) return;
+    running = true;
+    try {
+      await job();
+    } catch (error) {
+      console.error(`Job "${name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return setInterval(run, intervalMs);
+};
@@ -0,0 +1,73 @@
+import { S3Client } from "bun";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Backend penyimpanan file upload. Driver dipilih lewat STORAGE_DRIVER
+ * ("local" secara default, atau "s3" untuk storage yang kompatibel dengan S3).
+ */
+export interface StorageDriver {
+  save(key: string, data: Uint8Array, mimeType: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || "uploads";
+
+const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL || "";
+
+// Menyimpan file di filesystem lokal, disajikan lewat route /uploads/*.
+// URL yang dihasilkan adalah capability URL (lihat src/index.ts), begitu
+// juga URL publik bucket S3.
+export class LocalStorageDriver implements StorageDriver {
+  constructor(private readonly root: string) {}
+
+  async save(key: string, data: Uint8Array) {
+    const filePath = path.join(this.root, key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async remove(key: string) {
+    await rm(path.join(this.root, key), { force: true });
+  }
+
+  getUrl(key: string) {
+    return `${PUBLIC_BASE_URL}/uploads/${key}`;
+  }
+}
+
+export class S3StorageDriver implements StorageDriver {
+  private readonly client: S3Client;
+
+  constructor(private readonly publicUrl: string) {
+    this.client = new S3Client({
+      bucket: process.env.S3_BUCKET,
+      endpoint: process.env.S3_ENDPOINT,
+      region: process.env.S3_REGION,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  async save(key: string, data: Uint8Array, mimeType: string) {
+    await this.client.write(key, data, { type: mimeType });
+  }
+
+  async remove(key: string) {
+    await this.client.delete(key);
+  }
+
+  getUrl(key: string) {
+    return `${this.publicUrl}/${key}`;
+  }
+}
+
+const createStorage = (): StorageDriver => {
+  if (process.env.STORAGE_DRIVER === "s3") {
+    return new S3StorageDriver(process.env.S3_PUBLIC_URL as string);
+  }
+  return new LocalStorageDriver(UPLOAD_DIR);
+};
+
+export const storage = createStorage();
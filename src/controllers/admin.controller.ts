@@ -0,0 +1,62 @@
+import { Context } from "hono";
+import { USER_ROLES, UserRole } from "../model/user.types";
+import { UserService } from "../services/user.service";
+
+/**
+ * Mengambil semua pengguna beserta email, role, dan status akun.
+ */
+export const getAllUsers = async (c: Context) => {
+  const page = Number(c.req.query("page")) || 1;
+  const limit = Number(c.req.query("limit")) || 20;
+  const role = c.req.query("role") as UserRole | undefined;
+
+  if (limit < 1 || limit > 100) {
+    return c.json({ error: "Limit must be a number between 1 and 100" }, 400);
+  }
+  if (role && !USER_ROLES.includes(role)) {
+    return c.json(
+      { error: `Role must be one of: ${USER_ROLES.join(", ")}` },
+      400
+    );
+  }
+
+  try {
+    const result = await UserService.getAllUsers({ page, limit }, { role });
+    return c.json({
+      data: result.data,
+      pagination: {
+        total: result.total,
+        page,
+        limit,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return c.json({ error: "Failed to fetch users" }, 500);
+  }
+};
+
+export const updateUserRole = async (c: Context) => {
+  const adminId = c.get("user").id;
+  const userId = Number(c.req.param("userId"));
+  const body = await c.req.json();
+
+  if (!USER_ROLES.includes(body.role)) {
+    return c.json(
+      { error: `Role must be one of: ${USER_ROLES.join(", ")}` },
+      400
+    );
+  }
+
+  try {
+    const user = await UserService.updateRole(adminId, userId, body.role);
+    if (!user) return c.json({ error: "User not found" }, 404);
+    return c.json(user);
+  } catch (error: any) {
+    if (error.message === "Cannot change your own role") {
+      return c.json({ error: "Cannot change your own role" }, 400);
+    }
+    console.error("Error updating user role:", error);
+    return c.json({ error: "Failed to update user role" }, 500);
+  }
+};
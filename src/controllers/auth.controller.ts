@@ -7,7 +7,14 @@ import {
   refreshAccessTokenService,
   forgotPasswordService,
   resetPasswordService,
+  completeTwoFactorLoginService,
 } from "../services/auth.service";
+import {
+  EmailVerificationService,
+  VERIFICATION_RESEND_COOLDOWN_MS,
+} from "../services/email-verification.service";
+import { TwoFactorService } from "../services/two-factor.service";
+import { getClientInfo } from "../utils/request";
 
 // Opsi cookie standar untuk keamanan (opsional, bisa diabaikan jika frontend tidak pakai cookie)
 const cookieOptions = {
@@ -17,6 +24,37 @@ const cookieOptions = {
   path: "/",
 };
 
+type SessionResult = {
+  user: { id: number; username: string; email: string; role: string };
+  token: string;
+  refreshToken: string;
+  refreshTokenExpiresIn: number;
+};
+
+// Menyimpan refresh token di cookie dan mengirim access token ke klien
+const respondWithSession = (
+  c: Context,
+  session: SessionResult,
+  message: string
+) => {
+  setCookie(c, "refreshToken", session.refreshToken, {
+    ...cookieOptions,
+    maxAge: session.refreshTokenExpiresIn,
+  });
+
+  return c.json({
+    user: {
+      id: session.user.id,
+      username: session.user.username,
+      email: session.user.email,
+      role: session.user.role,
+      createdAt: new Date().toISOString(),
+    },
+    token: session.token,
+    message,
+  });
+};
+
 export const registerUser = async (c: Context) => {
   try {
     const body = await c.req.json();
@@ -29,33 +67,11 @@ export const registerUser = async (c: Context) => {
       return c.json({ message: "Password dan konfirmasi tidak cocok" }, 400);
     }
 
-    const { user, token, refreshToken, refreshTokenExpiresIn } =
-      await registerUserService({
-        username,
-        email,
-        password,
-        confirmPassword,
-      });
-
-    if (refreshToken && refreshTokenExpiresIn) {
-      setCookie(c, "refreshToken", refreshToken, {
-        ...cookieOptions,
-        maxAge: refreshTokenExpiresIn,
-      });
-    }
-
-    return c.json({
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        createdAt: new Date().toISOString(),
-      },
-      token,
-      message: "Registrasi berhasil!",
-      resetToken: null,
-      resetLink: null,
-    });
+    const session = await registerUserService(
+      { username, email, password, confirmPassword },
+      getClientInfo(c)
+    );
+    return respondWithSession(c, session, "Registrasi berhasil!");
   } catch (err: any) {
     return c.json({ message: err.message || "Registrasi gagal" }, 400);
   }
@@ -70,36 +86,61 @@ export const loginUser = async (c: Context) => {
       return c.json({ message: "Username atau password wajib diisi" }, 400);
     }
 
-    const { user, token, refreshToken, refreshTokenExpiresIn } =
-      await loginUserService({
-        username,
-        password,
-      });
+    const result = await loginUserService(
+      { username, password },
+      getClientInfo(c)
+    );
 
-    if (refreshToken && refreshTokenExpiresIn) {
-      setCookie(c, "refreshToken", refreshToken, {
-        ...cookieOptions,
-        maxAge: refreshTokenExpiresIn,
+    // Password benar tetapi akun memakai 2FA: lanjut ke POST /login/2fa
+    if (result.twoFactorRequired) {
+      return c.json({
+        twoFactorRequired: true,
+        twoFactorToken: result.twoFactorToken,
+        message: "Masukkan kode autentikasi dua faktor",
       });
     }
 
-    return c.json({
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        createdAt: new Date().toISOString(),
-      },
-      token,
-      message: "Login berhasil!",
-      resetToken: null,
-      resetLink: null,
-    });
+    return respondWithSession(c, result, "Login berhasil!");
   } catch (err: any) {
+    if (err.message === "Akun ditangguhkan") {
+      return c.json({ message: err.message }, 403);
+    }
     return c.json({ message: err.message || "Login gagal" }, 400);
   }
 };
 
+export const loginTwoFactor = async (c: Context) => {
+  try {
+    const body = await c.req.json();
+    const { twoFactorToken, code } = body;
+
+    if (typeof twoFactorToken !== "string" || typeof code !== "string") {
+      return c.json({ message: "Token dan kode wajib diisi" }, 400);
+    }
+
+    const session = await completeTwoFactorLoginService(
+      { twoFactorToken, code },
+      getClientInfo(c)
+    );
+    return respondWithSession(c, session, "Login berhasil!");
+  } catch (err: any) {
+    if (err.message === "Akun ditangguhkan") {
+      return c.json({ message: err.message }, 403);
+    }
+    if (err.message === "Terlalu banyak percobaan, coba lagi nanti") {
+      return c.json({ message: err.message }, 429);
+    }
+    if (
+      err.message === "Kode autentikasi salah" ||
+      err.message === "Token 2FA tidak valid atau sudah kedaluwarsa"
+    ) {
+      return c.json({ message: err.message }, 401);
+    }
+    console.error("LOGIN_2FA_ERROR:", err);
+    return c.json({ message: "Login gagal" }, 500);
+  }
+};
+
 export const logoutUser = async (c: Context) => {
   try {
     const refreshToken = getCookie(c, "refreshToken");
@@ -121,9 +162,14 @@ export const handleRefreshToken = async (c: Context) => {
       return c.json({ message: "Sesi tidak ditemukan, silakan login." }, 401);
     }
 
-    const { token } = await refreshAccessTokenService(refreshToken);
-    return c.json({ token });
+    const rotated = await refreshAccessTokenService(refreshToken);
+    setCookie(c, "refreshToken", rotated.refreshToken, {
+      ...cookieOptions,
+      maxAge: rotated.refreshTokenExpiresIn,
+    });
+    return c.json({ token: rotated.token });
   } catch (error: any) {
+    deleteCookie(c, "refreshToken", cookieOptions);
     return c.json({ message: "Sesi tidak valid, silakan login kembali." }, 403);
   }
 };
@@ -138,11 +184,7 @@ export const forgotPassword = async (c: Context) => {
     }
 
     const result = await forgotPasswordService({ email });
-    return c.json({
-      message: result.message,
-      resetToken: result.resetToken,
-      resetLink: result.resetLink,
-    });
+    return c.json({ message: result.message });
   } catch (err: any) {
     return c.json({ message: err.message || "Gagal mengirim link reset" }, 400);
   }
@@ -174,4 +216,146 @@ export const resetPassword = async (c: Context) => {
   } catch (err: any) {
     return c.json({ message: err.message || "Gagal mereset password" }, 400);
   }
-};
\ No newline at end of file
+};
+
+export const verifyEmail = async (c: Context) => {
+  try {
+    const body = await c.req.json();
+    if (!body.token || typeof body.token !== "string") {
+      return c.json({ message: "Token wajib diisi" }, 400);
+    }
+
+    const { email } = await EmailVerificationService.verify(body.token);
+    return c.json({ message: "Email berhasil diverifikasi", email });
+  } catch (err: any) {
+    if (err.message === "Invalid token") {
+      return c.json(
+        { message: "Link verifikasi tidak valid atau sudah kedaluwarsa" },
+        400
+      );
+    }
+    if (err.message === "Email already in use") {
+      return c.json({ message: "Email sudah digunakan akun lain" }, 409);
+    }
+    console.error("VERIFY_EMAIL_ERROR:", err);
+    return c.json({ message: "Gagal memverifikasi email" }, 500);
+  }
+};
+
+export const resendVerificationEmail = async (c: Context) => {
+  try {
+    await EmailVerificationService.sendVerification(c.get("user").id);
+    return c.json({ message: "Link verifikasi telah dikirim" });
+  } catch (err: any) {
+    if (err.message === "Email already verified") {
+      return c.json({ message: "Email sudah diverifikasi" }, 400);
+    }
+    if (err.message === "Too many requests") {
+      const retryAfter = Math.ceil(VERIFICATION_RESEND_COOLDOWN_MS / 1000);
+      c.header("Retry-After", String(retryAfter));
+      return c.json(
+        { message: "Tunggu sebentar sebelum meminta link baru" },
+        429
+      );
+    }
+    console.error("RESEND_VERIFICATION_ERROR:", err);
+    return c.json({ message: "Gagal mengirim link verifikasi" }, 500);
+  }
+};
+
+// Error dari TwoFactorService yang disebabkan input user
+const TWO_FACTOR_ERRORS: Record<string, [string, 400 | 401 | 409 | 429]> = {
+  "2FA already enabled": ["2FA sudah aktif", 409],
+  "2FA not enabled": ["2FA belum aktif", 400],
+  "2FA not enrolled": ["Mulai pendaftaran 2FA terlebih dahulu", 400],
+  "Invalid password": ["Password salah", 401],
+  "Invalid code": ["Kode autentikasi salah", 401],
+  "Too many attempts": ["Terlalu banyak percobaan, coba lagi nanti", 429],
+};
+
+const twoFactorError = (c: Context, err: any, fallback: string) => {
+  const known = TWO_FACTOR_ERRORS[err.message];
+  if (known) return c.json({ message: known[0] }, known[1]);
+  console.error("TWO_FACTOR_ERROR:", err);
+  return c.json({ message: fallback }, 500);
+};
+
+export const getTwoFactorStatus = async (c: Context) => {
+  try {
+    const status = await TwoFactorService.getStatus(c.get("user").id);
+    return c.json(status);
+  } catch (err: any) {
+    return twoFactorError(c, err, "Gagal mengambil status 2FA");
+  }
+};
+
+export const enrollTwoFactor = async (c: Context) => {
+  try {
+    const enrollment = await TwoFactorService.enroll(c.get("user").id);
+    return c.json({
+      ...enrollment,
+      message: "Pindai QR code lalu konfirmasi dengan kode dari aplikasi",
+    });
+  } catch (err: any) {
+    return twoFactorError(c, err, "Gagal memulai pendaftaran 2FA");
+  }
+};
+
+export const confirmTwoFactor = async (c: Context) => {
+  try {
+    const body = await c.req.json();
+    if (typeof body.code !== "string" || !body.code) {
+      return c.json({ message: "Kode wajib diisi" }, 400);
+    }
+
+    const { recoveryCodes } = await TwoFactorService.confirm(
+      c.get("user").id,
+      body.code
+    );
+    return c.json({
+      recoveryCodes,
+      message: "2FA aktif. Simpan kode cadangan di tempat yang aman",
+    });
+  } catch (err: any) {
+    return twoFactorError(c, err, "Gagal mengaktifkan 2FA");
+  }
+};
+
+export const disableTwoFactor = async (c: Context) => {
+  try {
+    const body = await c.req.json();
+    if (
+      typeof body.password !== "string" ||
+      typeof body.code !== "string" ||
+      !body.password ||
+      !body.code
+    ) {
+      return c.json({ message: "Password dan kode wajib diisi" }, 400);
+    }
+
+    await TwoFactorService.disable(c.get("user").id, body.password, body.code);
+    return c.json({ message: "2FA dinonaktifkan" });
+  } catch (err: any) {
+    return twoFactorError(c, err, "Gagal menonaktifkan 2FA");
+  }
+};
+
+export const regenerateRecoveryCodes = async (c: Context) => {
+  try {
+    const body = await c.req.json();
+    if (typeof body.code !== "string" || !body.code) {
+      return c.json({ message: "Kode wajib diisi" }, 400);
+    }
+
+    const { recoveryCodes } = await TwoFactorService.regenerateRecoveryCodes(
+      c.get("user").id,
+      body.code
+    );
+    return c.json({
+      recoveryCodes,
+      message: "Kode cadangan baru dibuat, kode lama tidak berlaku lagi",
+    });
+  } catch (err: any) {
+    return twoFactorError(c, err, "Gagal membuat kode cadangan");
+  }
+};
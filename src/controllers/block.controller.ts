@@ -0,0 +1,99 @@
+import { Context } from "hono";
+import { BlockService } from "../services/block.service";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+export const blockUser = async (c: Context) => {
+  const userId = c.get("user").id;
+  const targetId = Number(c.req.param("userId"));
+  try {
+    await BlockService.block(userId, targetId);
+    return c.json({ message: "User blocked" });
+  } catch (error: any) {
+    if (error.message === "Cannot block yourself") {
+      return c.json({ error: "Cannot block yourself" }, 400);
+    }
+    if (error.message === "User not found") {
+      return c.json({ error: "User not found" }, 404);
+    }
+    console.error("Error blocking user:", error);
+    return c.json({ error: "Failed to block user" }, 500);
+  }
+};
+
+export const unblockUser = async (c: Context) => {
+  const userId = c.get("user").id;
+  const targetId = Number(c.req.param("userId"));
+  try {
+    const removed = await BlockService.unblock(userId, targetId);
+    if (!removed) return c.json({ error: "Block not found" }, 404);
+    return c.json({ message: "User unblocked" });
+  } catch (error) {
+    console.error("Error unblocking user:", error);
+    return c.json({ error: "Failed to unblock user" }, 500);
+  }
+};
+
+export const muteUser = async (c: Context) => {
+  const userId = c.get("user").id;
+  const targetId = Number(c.req.param("userId"));
+  try {
+    await BlockService.mute(userId, targetId);
+    return c.json({ message: "User muted" });
+  } catch (error: any) {
+    if (error.message === "Cannot mute yourself") {
+      return c.json({ error: "Cannot mute yourself" }, 400);
+    }
+    if (error.message === "User not found") {
+      return c.json({ error: "User not found" }, 404);
+    }
+    console.error("Error muting user:", error);
+    return c.json({ error: "Failed to mute user" }, 500);
+  }
+};
+
+export const unmuteUser = async (c: Context) => {
+  const userId = c.get("user").id;
+  const targetId = Number(c.req.param("userId"));
+  try {
+    const removed = await BlockService.unmute(userId, targetId);
+    if (!removed) return c.json({ error: "Mute not found" }, 404);
+    return c.json({ message: "User unmuted" });
+  } catch (error) {
+    console.error("Error unmuting user:", error);
+    return c.json({ error: "Failed to unmute user" }, 500);
+  }
+};
+
+export const getBlocks = async (c: Context) => {
+  const userId = c.get("user").id;
+  try {
+    const blocks = await BlockService.getBlocks(
+      userId,
+      parsePaginationQuery(c, 20)
+    );
+    return c.json(blocks);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching blocks:", error);
+    return c.json({ error: "Failed to fetch blocked users" }, 500);
+  }
+};
+
+export const getMutes = async (c: Context) => {
+  const userId = c.get("user").id;
+  try {
+    const mutes = await BlockService.getMutes(
+      userId,
+      parsePaginationQuery(c, 20)
+    );
+    return c.json(mutes);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching mutes:", error);
+    return c.json({ error: "Failed to fetch muted users" }, 500);
+  }
+};
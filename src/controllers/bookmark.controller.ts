@@ -0,0 +1,47 @@
+import { Context } from "hono";
+import { BookmarkService } from "../services/bookmark.service";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+export const addBookmark = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  try {
+    await BookmarkService.addBookmark(userId, postId);
+    return c.json({ message: "Post bookmarked" });
+  } catch (error: any) {
+    if (error.message === "Post not found") {
+      return c.json({ error: "Post not found" }, 404);
+    }
+    console.error("Error adding bookmark:", error);
+    return c.json({ error: "Failed to add bookmark" }, 500);
+  }
+};
+
+export const removeBookmark = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  try {
+    const removed = await BookmarkService.removeBookmark(userId, postId);
+    if (!removed) return c.json({ error: "Bookmark not found" }, 404);
+    return c.json({ message: "Bookmark removed" });
+  } catch (error) {
+    console.error("Error removing bookmark:", error);
+    return c.json({ error: "Failed to remove bookmark" }, 500);
+  }
+};
+
+export const getBookmarks = async (c: Context) => {
+  const userId = c.get("user").id;
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const bookmarks = await BookmarkService.getBookmarks(userId, query);
+    return c.json(bookmarks);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching bookmarks:", error);
+    return c.json({ error: "Failed to fetch bookmarks" }, 500);
+  }
+};
@@ -0,0 +1,123 @@
+import { Context } from "hono";
+import { POST_VISIBILITIES } from "../model/post.types";
+import { DraftService } from "../services/draft.service";
+import { MAX_MEDIA_PER_POST } from "../services/media.service";
+import { isFutureDate } from "../utils/date";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+const listDrafts = (scheduled: boolean) => async (c: Context) => {
+  const userId = c.get("user").id;
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const drafts = await DraftService.getDrafts(userId, scheduled, query);
+    return c.json(drafts);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching drafts:", error);
+    return c.json({ error: "Failed to fetch drafts" }, 500);
+  }
+};
+
+export const getDrafts = listDrafts(false);
+export const getScheduledPosts = listDrafts(true);
+
+export const getDraft = async (c: Context) => {
+  const userId = c.get("user").id;
+  const draftId = Number(c.req.param("draftId"));
+  try {
+    const draft = await DraftService.getDraft(userId, draftId);
+    if (!draft) return c.json({ error: "Draft not found" }, 404);
+    return c.json(draft);
+  } catch (error) {
+    console.error("Error fetching draft:", error);
+    return c.json({ error: "Failed to fetch draft" }, 500);
+  }
+};
+
+export const updateDraft = async (c: Context) => {
+  const userId = c.get("user").id;
+  const draftId = Number(c.req.param("draftId"));
+  const body = await c.req.json();
+
+  if (body.content !== undefined && typeof body.content !== "string") {
+    return c.json({ error: "Content must be a string" }, 400);
+  }
+  if (
+    body.mediaIds !== undefined &&
+    (!Array.isArray(body.mediaIds) ||
+      !body.mediaIds.every((id: unknown) => Number.isInteger(id)) ||
+      body.mediaIds.length > MAX_MEDIA_PER_POST)
+  ) {
+    return c.json(
+      {
+        error: `mediaIds must be an array of at most ${MAX_MEDIA_PER_POST} ids`,
+      },
+      400
+    );
+  }
+  if (
+    body.visibility !== undefined &&
+    !POST_VISIBILITIES.includes(body.visibility)
+  ) {
+    return c.json(
+      { error: `Visibility must be one of: ${POST_VISIBILITIES.join(", ")}` },
+      400
+    );
+  }
+  if (
+    body.scheduledAt !== undefined &&
+    body.scheduledAt !== null &&
+    !isFutureDate(body.scheduledAt)
+  ) {
+    return c.json({ error: "scheduledAt must be a future date" }, 400);
+  }
+
+  try {
+    const draft = await DraftService.updateDraft(userId, draftId, {
+      content: body.content,
+      mediaIds: body.mediaIds,
+      visibility: body.visibility,
+      scheduledAt: body.scheduledAt,
+    });
+    if (!draft) return c.json({ error: "Draft not found" }, 404);
+    return c.json(draft);
+  } catch (error: any) {
+    if (error.message === "Invalid media") {
+      return c.json({ error: "Media not found or already attached" }, 400);
+    }
+    console.error("Error updating draft:", error);
+    return c.json({ error: "Failed to update draft" }, 500);
+  }
+};
+
+export const deleteDraft = async (c: Context) => {
+  const userId = c.get("user").id;
+  const draftId = Number(c.req.param("draftId"));
+  try {
+    const deleted = await DraftService.deleteDraft(userId, draftId);
+    if (!deleted) return c.json({ error: "Draft not found" }, 404);
+    return c.json({ message: "Draft deleted" });
+  } catch (error) {
+    console.error("Error deleting draft:", error);
+    return c.json({ error: "Failed to delete draft" }, 500);
+  }
+};
+
+export const publishDraft = async (c: Context) => {
+  const userId = c.get("user").id;
+  const draftId = Number(c.req.param("draftId"));
+  try {
+    const post = await DraftService.publishDraft(userId, draftId);
+    if (!post) return c.json({ error: "Draft not found" }, 404);
+    return c.json(post, 201);
+  } catch (error: any) {
+    if (error.message === "Invalid media") {
+      return c.json({ error: "Media not found or already attached" }, 400);
+    }
+    console.error("Error publishing draft:", error);
+    return c.json({ error: "Failed to publish draft" }, 500);
+  }
+};
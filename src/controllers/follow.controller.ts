@@ -1,11 +1,29 @@
 import { Context } from "hono";
 import { FollowService } from "../services/follow.service";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
 
 export const followUser = async (c: Context) => {
   const userId = c.get("user").id;
   const targetId = Number(c.req.param("userId"));
-  await FollowService.follow(userId, targetId);
-  return c.json({ message: "Followed successfully" });
+  try {
+    const status = await FollowService.follow(userId, targetId);
+    return c.json({
+      message:
+        status === "pending" ? "Follow request sent" : "Followed successfully",
+      status,
+    });
+  } catch (error: any) {
+    if (error.message === "Cannot follow yourself") {
+      return c.json({ error: "Cannot follow yourself" }, 400);
+    }
+    if (error.message === "User not found") {
+      return c.json({ error: "User not found" }, 404);
+    }
+    if (error.message === "Blocked") {
+      return c.json({ error: "You cannot follow this user" }, 403);
+    }
+    throw error;
+  }
 };
 
 export const unfollowUser = async (c: Context) => {
@@ -17,14 +35,54 @@ export const unfollowUser = async (c: Context) => {
 
 export const getFollowers = async (c: Context) => {
   const userId = Number(c.req.param("userId"));
-  const followers = await FollowService.getFollowers(userId);
-  return c.json(followers.map((f) => f.follower));
+  try {
+    const followers = await FollowService.getFollowers(
+      userId,
+      parsePaginationQuery(c, 20),
+      c.get("user").id
+    );
+    return c.json(followers);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error.message === "User not found") {
+      return c.json({ error: "User not found" }, 404);
+    }
+    if (error.message === "Account is private") {
+      return c.json({ error: "This account is private" }, 403);
+    }
+    if (error.message === "Blocked") {
+      return c.json({ error: "You cannot view this account" }, 403);
+    }
+    throw error;
+  }
 };
 
 export const getFollowing = async (c: Context) => {
   const userId = Number(c.req.param("userId"));
-  const following = await FollowService.getFollowing(userId);
-  return c.json(following.map((f) => f.following));
+  try {
+    const following = await FollowService.getFollowing(
+      userId,
+      parsePaginationQuery(c, 20),
+      c.get("user").id
+    );
+    return c.json(following);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    if (error.message === "User not found") {
+      return c.json({ error: "User not found" }, 404);
+    }
+    if (error.message === "Account is private") {
+      return c.json({ error: "This account is private" }, 403);
+    }
+    if (error.message === "Blocked") {
+      return c.json({ error: "You cannot view this account" }, 403);
+    }
+    throw error;
+  }
 };
 
   export const getFollowStatus = async (c: Context) => {
@@ -36,7 +94,7 @@ export const getFollowing = async (c: Context) => {
     }
 
   
-    const [isFollowing, targetUser] = await Promise.all([
+    const [status, targetUser] = await Promise.all([
       FollowService.checkFollowStatus(currentUserId, targetId),
       FollowService.getTargetUserProfile(targetId),
     ]);
@@ -45,5 +103,43 @@ export const getFollowing = async (c: Context) => {
       return c.json({ error: "Target user not found" }, 404);
     }
 
-    return c.json({ isFollowing, targetUser });
+    // status: "none" | "pending" | "following"
+    return c.json({ status, targetUser });
   };
+
+const listFollowRequests =
+  (direction: "incoming" | "outgoing") => async (c: Context) => {
+    const userId = c.get("user").id;
+    try {
+      const requests = await FollowService.getFollowRequests(
+        userId,
+        direction,
+        parsePaginationQuery(c, 20)
+      );
+      return c.json(requests);
+    } catch (error: any) {
+      if (isPaginationError(error)) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
+    }
+  };
+
+export const getIncomingFollowRequests = listFollowRequests("incoming");
+export const getOutgoingFollowRequests = listFollowRequests("outgoing");
+
+export const approveFollowRequest = async (c: Context) => {
+  const userId = c.get("user").id;
+  const requestId = Number(c.req.param("requestId"));
+  const approved = await FollowService.approveRequest(userId, requestId);
+  if (!approved) return c.json({ error: "Follow request not found" }, 404);
+  return c.json({ message: "Follow request approved" });
+};
+
+export const rejectFollowRequest = async (c: Context) => {
+  const userId = c.get("user").id;
+  const requestId = Number(c.req.param("requestId"));
+  const rejected = await FollowService.rejectRequest(userId, requestId);
+  if (!rejected) return c.json({ error: "Follow request not found" }, 404);
+  return c.json({ message: "Follow request rejected" });
+};
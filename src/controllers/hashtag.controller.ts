@@ -0,0 +1,56 @@
+import { Context } from "hono";
+import { HashtagService } from "../services/hashtag.service";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+export const getHashtagPosts = async (c: Context) => {
+  const tag = c.req.param("tag");
+  const sort = c.req.query("sort") || "latest";
+
+  if (sort !== "latest" && sort !== "top") {
+    return c.json(
+      { error: 'Sort parameter must be either "latest" or "top"' },
+      400
+    );
+  }
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const posts = await HashtagService.getPostsByHashtag(
+      tag,
+      sort,
+      query,
+      c.get("user")?.id
+    );
+    return c.json({ tag, sort, ...posts });
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Hashtag posts error:", error);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+};
+
+export const getTrendingHashtags = async (c: Context) => {
+  const windowHours = Number(c.req.query("window") || 24);
+  const limit = Number(c.req.query("limit") || 10);
+
+  if (isNaN(windowHours) || windowHours < 1 || windowHours > 168) {
+    return c.json({ error: "Window must be between 1 and 168 hours" }, 400);
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 50) {
+    return c.json({ error: "Limit must be a number between 1 and 50" }, 400);
+  }
+
+  try {
+    const trending = await HashtagService.getTrendingHashtags(
+      windowHours,
+      limit
+    );
+    return c.json({ windowHours, trending });
+  } catch (error) {
+    console.error("Trending hashtags error:", error);
+    return c.json({ error: "Internal server error" }, 500);
+  }
+};
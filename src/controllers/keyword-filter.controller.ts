@@ -0,0 +1,131 @@
+import { Context } from "hono";
+import { FILTER_ACTIONS, FILTER_SCOPES } from "../model/filter.types";
+import {
+  KeywordFilterService,
+  MAX_FILTER_KEYWORD_LENGTH,
+  MAX_FILTERS_PER_USER,
+} from "../services/keyword-filter.service";
+import { isFutureDate } from "../utils/date";
+import { normalizeKeyword } from "../utils/keyword-filter";
+
+/**
+ * Memvalidasi body filter. Saat partial = true hanya field yang dikirim
+ * yang diperiksa (untuk update).
+ */
+const validateFilter = (body: any, partial: boolean) => {
+  if (!partial || body.keyword !== undefined) {
+    if (typeof body.keyword !== "string" || !normalizeKeyword(body.keyword)) {
+      return "Keyword is required";
+    }
+    if (normalizeKeyword(body.keyword).length > MAX_FILTER_KEYWORD_LENGTH) {
+      return `Keyword must be at most ${MAX_FILTER_KEYWORD_LENGTH} characters`;
+    }
+  }
+  if (!partial || body.scopes !== undefined) {
+    if (
+      !Array.isArray(body.scopes) ||
+      body.scopes.length === 0 ||
+      !body.scopes.every((scope: unknown) =>
+        FILTER_SCOPES.includes(scope as any)
+      )
+    ) {
+      return `Scopes must be a non-empty array of: ${FILTER_SCOPES.join(", ")}`;
+    }
+  }
+  if (body.wholeWord !== undefined && typeof body.wholeWord !== "boolean") {
+    return "wholeWord must be a boolean";
+  }
+  if (body.action !== undefined && !FILTER_ACTIONS.includes(body.action)) {
+    return `Action must be one of: ${FILTER_ACTIONS.join(", ")}`;
+  }
+  if (
+    body.expiresAt !== undefined &&
+    body.expiresAt !== null &&
+    !isFutureDate(body.expiresAt)
+  ) {
+    return "expiresAt must be a future date";
+  }
+  return null;
+};
+
+export const getFilters = async (c: Context) => {
+  const userId = c.get("user").id;
+  try {
+    const filters = await KeywordFilterService.getFilters(userId);
+    return c.json({ data: filters });
+  } catch (error) {
+    console.error("Error fetching filters:", error);
+    return c.json({ error: "Failed to fetch filters" }, 500);
+  }
+};
+
+export const createFilter = async (c: Context) => {
+  const userId = c.get("user").id;
+  const body = await c.req.json();
+
+  const validationError = validateFilter(body, false);
+  if (validationError) return c.json({ error: validationError }, 400);
+
+  try {
+    const filter = await KeywordFilterService.createFilter(userId, {
+      keyword: body.keyword,
+      wholeWord: body.wholeWord,
+      scopes: Array.from(new Set(body.scopes)),
+      action: body.action,
+      expiresAt: body.expiresAt,
+    });
+    return c.json(filter, 201);
+  } catch (error: any) {
+    if (error.message === "Filter limit reached") {
+      return c.json(
+        { error: `You can have at most ${MAX_FILTERS_PER_USER} filters` },
+        400
+      );
+    }
+    if (error.message === "Filter already exists") {
+      return c.json({ error: "Filter already exists" }, 409);
+    }
+    console.error("Error creating filter:", error);
+    return c.json({ error: "Failed to create filter" }, 500);
+  }
+};
+
+export const updateFilter = async (c: Context) => {
+  const userId = c.get("user").id;
+  const filterId = Number(c.req.param("filterId"));
+  const body = await c.req.json();
+
+  const validationError = validateFilter(body, true);
+  if (validationError) return c.json({ error: validationError }, 400);
+
+  try {
+    const filter = await KeywordFilterService.updateFilter(userId, filterId, {
+      keyword: body.keyword,
+      wholeWord: body.wholeWord,
+      scopes: body.scopes && Array.from(new Set(body.scopes)),
+      action: body.action,
+      expiresAt: body.expiresAt,
+    });
+    if (!filter) return c.json({ error: "Filter not found" }, 404);
+    return c.json(filter);
+  } catch (error: any) {
+    if (error.message === "Filter already exists") {
+      return c.json({ error: "Filter already exists" }, 409);
+    }
+    console.error("Error updating filter:", error);
+    return c.json({ error: "Failed to update filter" }, 500);
+  }
+};
+
+export const deleteFilter = async (c: Context) => {
+  const userId = c.get("user").id;
+  const filterId = Number(c.req.param("filterId"));
+  try {
+    const deleted = await KeywordFilterService.deleteFilter(userId, filterId);
+    if (!deleted) return c.json({ error: "Filter not found" }, 404);
+    return c.json({ message: "Filter deleted" });
+  } catch (error) {
+    console.error("Error deleting filter:", error);
+    return c.json({ error: "Failed to delete filter" }, 500);
+  }
+};
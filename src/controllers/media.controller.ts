@@ -0,0 +1,70 @@
+import { Context } from "hono";
+import { MediaService } from "../services/media.service";
+
+export const uploadMedia = async (c: Context) => {
+  const userId = c.get("user").id;
+
+  try {
+    const body = await c.req.parseBody();
+    const file = body.file;
+
+    if (!(file instanceof File)) {
+      return c.json({ error: "File is required" }, 400);
+    }
+
+    const altText = typeof body.altText === "string" ? body.altText : undefined;
+    if (altText && altText.length > 1000) {
+      return c.json({ error: "Alt text cannot exceed 1000 characters" }, 400);
+    }
+
+    const media = await MediaService.upload(userId, file, {
+      altText,
+      width: typeof body.width === "string" ? Number(body.width) : undefined,
+      height: typeof body.height === "string" ? Number(body.height) : undefined,
+    });
+    return c.json(media, 201);
+  } catch (error: any) {
+    if (error.message === "Unsupported media type") {
+      return c.json({ error: "Unsupported media type" }, 415);
+    }
+    if (error.message === "File too large") {
+      return c.json({ error: "File too large" }, 413);
+    }
+    if (error.message === "Invalid dimensions") {
+      return c.json(
+        { error: "Width and height must both be integers from 1 to 8192" },
+        400
+      );
+    }
+    console.error("Error uploading media:", error);
+    return c.json({ error: "Failed to upload media" }, 500);
+  }
+};
+
+export const updateMediaAltText = async (c: Context) => {
+  const userId = c.get("user").id;
+  const mediaId = Number(c.req.param("mediaId"));
+  const body = await c.req.json();
+
+  if (typeof body.altText !== "string" || body.altText.length > 1000) {
+    return c.json(
+      { error: "Alt text must be a string of at most 1000 characters" },
+      400
+    );
+  }
+
+  try {
+    const media = await MediaService.updateAltText(
+      userId,
+      mediaId,
+      body.altText
+    );
+    if (!media) {
+      return c.json({ error: "Media not found or unauthorized" }, 404);
+    }
+    return c.json(media);
+  } catch (error) {
+    console.error("Error updating media:", error);
+    return c.json({ error: "Failed to update media" }, 500);
+  }
+};
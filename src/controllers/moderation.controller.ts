@@ -0,0 +1,251 @@
+import { Context } from "hono";
+import {
+  REPORT_RESOLUTION_ACTIONS,
+  REPORT_STATUSES,
+  ReportStatus,
+} from "../model/report.types";
+import { ModerationService } from "../services/moderation.service";
+import { ReportService } from "../services/report.service";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+const MAX_REASON_LENGTH = 500;
+
+// Setiap tindakan moderasi wajib menyertakan alasan untuk log audit
+const parseReason = async (c: Context) => {
+  const body = await c.req.json().catch(() => ({}));
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (!reason || reason.length > MAX_REASON_LENGTH) {
+    return { body, reason: null };
+  }
+  return { body, reason };
+};
+
+const reasonError = (c: Context) =>
+  c.json(
+    { error: `Reason is required (at most ${MAX_REASON_LENGTH} characters)` },
+    400
+  );
+
+/**
+ * Memetakan error dari service ke response. Mengembalikan null jika error
+ * tidak dikenal.
+ */
+const mapModerationError = (c: Context, error: any) => {
+  switch (error.message) {
+    case "Post not found":
+    case "User not found":
+      return c.json({ error: error.message }, 404);
+    case "Cannot moderate yourself":
+    case "Action not applicable":
+      return c.json({ error: error.message }, 400);
+    case "Cannot moderate a moderator":
+      return c.json({ error: error.message }, 403);
+    case "Report already claimed":
+    case "Report claimed by another moderator":
+    case "Report already closed":
+      return c.json({ error: error.message }, 409);
+  }
+  return null;
+};
+
+export const getReports = async (c: Context) => {
+  const status = c.req.query("status") as ReportStatus | undefined;
+  const mine = c.req.query("mine") === "true";
+
+  if (status && !REPORT_STATUSES.includes(status)) {
+    return c.json(
+      { error: `Status must be one of: ${REPORT_STATUSES.join(", ")}` },
+      400
+    );
+  }
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const reports = await ReportService.getQueue(
+      { status, moderatorId: mine ? c.get("user").id : undefined },
+      query
+    );
+    return c.json(reports);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching reports:", error);
+    return c.json({ error: "Failed to fetch reports" }, 500);
+  }
+};
+
+export const getReport = async (c: Context) => {
+  const reportId = Number(c.req.param("reportId"));
+  try {
+    const report = await ReportService.getReport(reportId);
+    if (!report) return c.json({ error: "Report not found" }, 404);
+    return c.json(report);
+  } catch (error) {
+    console.error("Error fetching report:", error);
+    return c.json({ error: "Failed to fetch report" }, 500);
+  }
+};
+
+export const claimReport = async (c: Context) => {
+  const moderatorId = c.get("user").id;
+  const reportId = Number(c.req.param("reportId"));
+  try {
+    const report = await ReportService.claimReport(moderatorId, reportId);
+    if (!report) return c.json({ error: "Report not found" }, 404);
+    return c.json(report);
+  } catch (error: any) {
+    const response = mapModerationError(c, error);
+    if (response) return response;
+    console.error("Error claiming report:", error);
+    return c.json({ error: "Failed to claim report" }, 500);
+  }
+};
+
+export const resolveReport = async (c: Context) => {
+  const moderatorId = c.get("user").id;
+  const reportId = Number(c.req.param("reportId"));
+  const { body, reason } = await parseReason(c);
+
+  if (!reason) return reasonError(c);
+  if (
+    body.action !== undefined &&
+    !REPORT_RESOLUTION_ACTIONS.includes(body.action)
+  ) {
+    return c.json(
+      {
+        error: `Action must be one of: ${REPORT_RESOLUTION_ACTIONS.join(", ")}`,
+      },
+      400
+    );
+  }
+
+  try {
+    const report = await ReportService.resolveReport(moderatorId, reportId, {
+      reason,
+      action: body.action,
+    });
+    if (!report) return c.json({ error: "Report not found" }, 404);
+    return c.json(report);
+  } catch (error: any) {
+    const response = mapModerationError(c, error);
+    if (response) return response;
+    console.error("Error resolving report:", error);
+    return c.json({ error: "Failed to resolve report" }, 500);
+  }
+};
+
+export const dismissReport = async (c: Context) => {
+  const moderatorId = c.get("user").id;
+  const reportId = Number(c.req.param("reportId"));
+  const { reason } = await parseReason(c);
+  if (!reason) return reasonError(c);
+
+  try {
+    const report = await ReportService.dismissReport(
+      moderatorId,
+      reportId,
+      reason
+    );
+    if (!report) return c.json({ error: "Report not found" }, 404);
+    return c.json(report);
+  } catch (error: any) {
+    const response = mapModerationError(c, error);
+    if (response) return response;
+    console.error("Error dismissing report:", error);
+    return c.json({ error: "Failed to dismiss report" }, 500);
+  }
+};
+
+/**
+ * Handler untuk tindakan langsung terhadap postingan atau akun, di luar
+ * alur laporan.
+ */
+const moderationAction =
+  (
+    param: "postId" | "userId",
+    run: (
+      moderatorId: number,
+      targetId: number,
+      reason: string
+    ) => Promise<void>,
+    message: string
+  ) =>
+  async (c: Context) => {
+    const moderatorId = c.get("user").id;
+    const targetId = Number(c.req.param(param));
+    const { reason } = await parseReason(c);
+    if (!reason) return reasonError(c);
+
+    try {
+      await run(moderatorId, targetId, reason);
+      return c.json({ message });
+    } catch (error: any) {
+      const response = mapModerationError(c, error);
+      if (response) return response;
+      console.error(`Error applying moderation action (${message}):`, error);
+      return c.json({ error: "Failed to apply moderation action" }, 500);
+    }
+  };
+
+export const hidePost = moderationAction(
+  "postId",
+  ModerationService.hidePost,
+  "Post hidden"
+);
+export const unhidePost = moderationAction(
+  "postId",
+  ModerationService.unhidePost,
+  "Post restored"
+);
+export const suspendUser = moderationAction(
+  "userId",
+  ModerationService.suspendUser,
+  "User suspended"
+);
+export const unsuspendUser = moderationAction(
+  "userId",
+  ModerationService.unsuspendUser,
+  "User unsuspended"
+);
+export const warnUser = moderationAction(
+  "userId",
+  ModerationService.warnUser,
+  "User warned"
+);
+
+export const getActions = async (c: Context) => {
+  const userId = c.req.query("userId");
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const actions = await ModerationService.getActions(
+      { targetUserId: userId ? Number(userId) : undefined },
+      query
+    );
+    return c.json(actions);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching moderation log:", error);
+    return c.json({ error: "Failed to fetch moderation log" }, 500);
+  }
+};
+
+// Peringatan milik user yang sedang login (tidak perlu moderator)
+export const getMyWarnings = async (c: Context) => {
+  const userId = c.get("user").id;
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const warnings = await ModerationService.getWarnings(userId, query);
+    return c.json(warnings);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching warnings:", error);
+    return c.json({ error: "Failed to fetch warnings" }, 500);
+  }
+};
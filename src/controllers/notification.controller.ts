@@ -0,0 +1,74 @@
+import { Context } from "hono";
+import { NotificationService } from "../services/notification.service";
+import {
+  NOTIFICATION_TYPES,
+  NotificationType,
+} from "../model/notification.types";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+export const getNotifications = async (c: Context) => {
+  const userId = c.get("user").id;
+  const type = c.req.query("type") as NotificationType | undefined;
+  const unreadOnly = c.req.query("unread") === "true";
+
+  if (type && !NOTIFICATION_TYPES.includes(type)) {
+    return c.json(
+      { error: "Invalid type parameter", validTypes: NOTIFICATION_TYPES },
+      400
+    );
+  }
+
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const notifications = await NotificationService.getNotifications(
+      userId,
+      { type, unreadOnly },
+      query
+    );
+    return c.json(notifications);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching notifications:", error);
+    return c.json({ error: "Failed to fetch notifications" }, 500);
+  }
+};
+
+export const getUnreadCount = async (c: Context) => {
+  const userId = c.get("user").id;
+  try {
+    const count = await NotificationService.getUnreadCount(userId);
+    return c.json({ count });
+  } catch (error) {
+    console.error("Error counting notifications:", error);
+    return c.json({ error: "Failed to count notifications" }, 500);
+  }
+};
+
+export const markAsRead = async (c: Context) => {
+  const userId = c.get("user").id;
+  const notificationId = Number(c.req.param("notificationId"));
+  try {
+    const updated = await NotificationService.markAsRead(
+      userId,
+      notificationId
+    );
+    if (!updated) return c.json({ error: "Notification not found" }, 404);
+    return c.json({ message: "Notification marked as read" });
+  } catch (error) {
+    console.error("Error marking notification:", error);
+    return c.json({ error: "Failed to mark notification" }, 500);
+  }
+};
+
+export const markAllAsRead = async (c: Context) => {
+  const userId = c.get("user").id;
+  try {
+    const count = await NotificationService.markAllAsRead(userId);
+    return c.json({ message: "All notifications marked as read", count });
+  } catch (error) {
+    console.error("Error marking notifications:", error);
+    return c.json({ error: "Failed to mark notifications" }, 500);
+  }
+};
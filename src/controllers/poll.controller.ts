@@ -0,0 +1,31 @@
+import { Context } from "hono";
+import { PollService } from "../services/poll.service";
+
+export const handleVotePoll = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  const body = await c.req.json();
+  const optionId = Number(body.optionId);
+
+  if (!Number.isInteger(optionId)) {
+    return c.json({ error: "optionId is required" }, 400);
+  }
+
+  try {
+    const poll = await PollService.vote(userId, postId, optionId);
+    return c.json(poll);
+  } catch (error: any) {
+    switch (error.message) {
+      case "Poll not found":
+        return c.json({ error: "Poll not found" }, 404);
+      case "Invalid option":
+        return c.json({ error: "Option does not belong to this poll" }, 400);
+      case "Poll is closed":
+        return c.json({ error: "Poll is closed" }, 403);
+      case "Already voted":
+        return c.json({ error: "You have already voted in this poll" }, 409);
+    }
+    console.error("Error voting in poll:", error);
+    return c.json({ error: "Failed to vote" }, 500);
+  }
+};
@@ -1,22 +1,135 @@
 // post.controller.ts
 import { Context } from "hono";
 import * as PostService from "../services/post.service";
+import { POST_VISIBILITIES } from "../model/post.types";
+import { DraftService } from "../services/draft.service";
+import { MAX_MEDIA_PER_POST } from "../services/media.service";
+import {
+  MAX_POLL_DURATION_MS,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MIN_POLL_DURATION_MS,
+  MIN_POLL_OPTIONS,
+} from "../services/poll.service";
+import { isFutureDate } from "../utils/date";
+import { isPaginationError, parsePaginationQuery } from "../utils/pagination";
+
+// Mengembalikan pesan error jika data polling tidak valid
+const validatePoll = (poll: any) => {
+  const options = poll?.options;
+  if (
+    !Array.isArray(options) ||
+    options.length < MIN_POLL_OPTIONS ||
+    options.length > MAX_POLL_OPTIONS
+  ) {
+    return `Poll must have between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`;
+  }
+  if (
+    !options.every(
+      (option: unknown) =>
+        typeof option === "string" &&
+        option.trim() !== "" &&
+        option.trim().length <= MAX_POLL_OPTION_LENGTH
+    )
+  ) {
+    return `Poll options must be non-empty and at most ${MAX_POLL_OPTION_LENGTH} characters`;
+  }
+  const normalized = options.map((option: string) => option.trim().toLowerCase());
+  if (new Set(normalized).size !== normalized.length) {
+    return "Poll options must be unique";
+  }
+
+  const closesAt = new Date(poll.closesAt);
+  const duration = closesAt.getTime() - Date.now();
+  if (
+    isNaN(duration) ||
+    duration < MIN_POLL_DURATION_MS ||
+    duration > MAX_POLL_DURATION_MS
+  ) {
+    return "closesAt must be between 5 minutes and 7 days from now";
+  }
+  return null;
+};
+
+const isValidVisibility = (value: unknown) =>
+  value === undefined || POST_VISIBILITIES.includes(value as any);
 
 export const handleCreatePost = async (c: Context) => {
   const userId = c.get("user").id;
   const body = await c.req.json();
+
   if (
-    !body.content ||
-    typeof body.content !== "string" ||
-    body.content.trim() === ""
+    body.mediaIds !== undefined &&
+    (!Array.isArray(body.mediaIds) ||
+      !body.mediaIds.every((id: unknown) => Number.isInteger(id)) ||
+      body.mediaIds.length > MAX_MEDIA_PER_POST)
   ) {
+    return c.json(
+      {
+        error: `mediaIds must be an array of at most ${MAX_MEDIA_PER_POST} ids`,
+      },
+      400
+    );
+  }
+
+  if (!isValidVisibility(body.visibility)) {
+    return c.json(
+      { error: `Visibility must be one of: ${POST_VISIBILITIES.join(", ")}` },
+      400
+    );
+  }
+
+  if (body.poll !== undefined) {
+    const pollError = validatePoll(body.poll);
+    if (pollError) return c.json({ error: pollError }, 400);
+  }
+
+  // Postingan boleh tanpa teks jika ada lampiran media
+  const hasMedia = body.mediaIds?.length > 0;
+  const content = body.content ?? "";
+  if (typeof content !== "string" || (content.trim() === "" && !hasMedia)) {
     return c.json({ error: "Content is required and cannot be empty" }, 400);
   }
 
+  // Draft dan postingan terjadwal disimpan terpisah sampai diterbitkan
+  if (body.isDraft || body.scheduledAt !== undefined) {
+    if (body.poll !== undefined || body.parentPostId !== undefined) {
+      return c.json(
+        { error: "Polls and replies cannot be saved as drafts" },
+        400
+      );
+    }
+    if (body.scheduledAt !== undefined && !isFutureDate(body.scheduledAt)) {
+      return c.json({ error: "scheduledAt must be a future date" }, 400);
+    }
+
+    try {
+      const draft = await DraftService.createDraft(userId, {
+        content,
+        mediaIds: body.mediaIds,
+        visibility: body.visibility,
+        scheduledAt: body.scheduledAt,
+      });
+      return c.json(draft, 201);
+    } catch (error: any) {
+      if (error.message === "Invalid media") {
+        return c.json({ error: "Media not found or already attached" }, 400);
+      }
+      console.error("Error creating draft:", error);
+      return c.json({ error: "Failed to create draft" }, 500);
+    }
+  }
+
   try {
     const post = await PostService.createPost(userId, body);
     return c.json(post, 201);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Post not found") {
+      return c.json({ error: "Parent post not found" }, 404);
+    }
+    if (error.message === "Invalid media") {
+      return c.json({ error: "Media not found or already attached" }, 400);
+    }
     console.error("Error creating post:", error);
     return c.json({ error: "Failed to create post" }, 500);
   }
@@ -24,17 +137,34 @@ export const handleCreatePost = async (c: Context) => {
 
 export const handleGetPosts = async (c: Context) => {
   const userId = c.get("user")?.id;
-  const limit = Number(c.req.query("limit") || 10);
-  const offset = Number(c.req.query("offset") || 0);
   try {
-    const posts = await PostService.getPosts(userId, limit, offset);
+    const query = parsePaginationQuery(c);
+    const posts = await PostService.getPosts(userId, query);
     return c.json(posts);
-  } catch (error) {
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
     console.error("Error fetching posts:", error);
     return c.json({ error: "Failed to fetch posts" }, 500);
   }
 };
 
+export const handleGetHomeTimeline = async (c: Context) => {
+  const userId = c.get("user").id;
+  try {
+    const query = parsePaginationQuery(c);
+    const posts = await PostService.getHomeTimeline(userId, query);
+    return c.json(posts);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching home timeline:", error);
+    return c.json({ error: "Failed to fetch home timeline" }, 500);
+  }
+};
+
 export const handleGetPostDetail = async (c: Context) => {
   const postId = Number(c.req.param("postId"));
   const userId = c.get("user")?.id;
@@ -48,6 +178,33 @@ export const handleGetPostDetail = async (c: Context) => {
   }
 };
 
+export const handleGetPostThread = async (c: Context) => {
+  const postId = Number(c.req.param("postId"));
+  const userId = c.get("user")?.id;
+  const depth = Number(c.req.query("depth") || 3);
+
+  if (isNaN(depth) || depth < 1 || depth > 10) {
+    return c.json({ error: "Depth must be a number between 1 and 10" }, 400);
+  }
+
+  try {
+    const query = parsePaginationQuery(c);
+    const thread = await PostService.getPostThread(
+      postId,
+      { depth, query },
+      userId
+    );
+    if (!thread) return c.json({ error: "Post not found" }, 404);
+    return c.json(thread);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching post thread:", error);
+    return c.json({ error: "Failed to fetch post thread" }, 500);
+  }
+};
+
 export const handleUpdatePost = async (c: Context) => {
   const userId = c.get("user").id;
   const postId = Number(c.req.param("postId"));
@@ -67,12 +224,35 @@ export const handleUpdatePost = async (c: Context) => {
       return c.json({ error: "Post not found or unauthorized" }, 404);
     }
     return c.json(updatedPost);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Edit window has expired") {
+      return c.json({ error: "Edit window has expired" }, 403);
+    }
     console.error("Error updating post:", error);
     return c.json({ error: "Failed to update post" }, 500);
   }
 };
 
+export const handleGetPostHistory = async (c: Context) => {
+  const postId = Number(c.req.param("postId"));
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const history = await PostService.getPostHistory(
+      postId,
+      query,
+      c.get("user")?.id
+    );
+    if (!history) return c.json({ error: "Post not found" }, 404);
+    return c.json(history);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error fetching post history:", error);
+    return c.json({ error: "Failed to fetch post history" }, 500);
+  }
+};
+
 export const handleDeletePost = async (c: Context) => {
   const userId = c.get("user").id;
   const postId = Number(c.req.param("postId"));
@@ -89,13 +269,46 @@ export const handleDeletePost = async (c: Context) => {
   }
 };
 
+export const handlePinPost = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  try {
+    const pinned = await PostService.pinPost(userId, postId);
+    if (!pinned) {
+      return c.json({ error: "Post not found or unauthorized" }, 404);
+    }
+    return c.json({ message: "Post pinned" });
+  } catch (error) {
+    console.error("Error pinning post:", error);
+    return c.json({ error: "Failed to pin post" }, 500);
+  }
+};
+
+export const handleUnpinPost = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  try {
+    const unpinned = await PostService.unpinPost(userId, postId);
+    if (!unpinned) {
+      return c.json({ error: "Pinned post not found or unauthorized" }, 404);
+    }
+    return c.json({ message: "Post unpinned" });
+  } catch (error) {
+    console.error("Error unpinning post:", error);
+    return c.json({ error: "Failed to unpin post" }, 500);
+  }
+};
+
 export const handleLikePost = async (c: Context) => {
   const userId = c.get("user").id;
   const postId = Number(c.req.param("postId"));
   try {
     const liked = await PostService.toggleLikePost(userId, postId);
     return c.json({ message: liked ? "Post liked" : "Like removed" });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Post not found") {
+      return c.json({ error: "Post not found" }, 404);
+    }
     console.error("Error liking post:", error);
     return c.json({ error: "Failed to toggle like" }, 500);
   }
@@ -107,7 +320,13 @@ export const handleRepost = async (c: Context) => {
   try {
     const reposted = await PostService.toggleRepost(userId, postId);
     return c.json({ message: reposted ? "Reposted" : "Repost removed" });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Post not found") {
+      return c.json({ error: "Post not found" }, 404);
+    }
+    if (error.message === "Post cannot be reposted") {
+      return c.json({ error: "This post cannot be reposted" }, 403);
+    }
     console.error("Error reposting:", error);
     return c.json({ error: "Failed to toggle repost" }, 500);
   }
@@ -120,24 +339,62 @@ export const handleQuotePost = async (c: Context) => {
   if (!body.quoteContent || typeof body.quoteContent !== "string") {
     return c.json({ error: "Quote content is required" }, 400);
   }
+  if (!isValidVisibility(body.visibility)) {
+    return c.json(
+      { error: `Visibility must be one of: ${POST_VISIBILITIES.join(", ")}` },
+      400
+    );
+  }
   try {
     const quote = await PostService.quotePost(userId, postId, body);
-    return c.json(quote);
-  } catch (error) {
+    return c.json(quote, 201);
+  } catch (error: any) {
+    if (error.message === "Post not found") {
+      return c.json({ error: "Post not found" }, 404);
+    }
+    if (error.message === "Post cannot be reposted") {
+      return c.json({ error: "This post cannot be quoted" }, 403);
+    }
     console.error("Error quoting post:", error);
     return c.json({ error: "Failed to quote post" }, 500);
   }
 };
 
-export const handleGetPostComments = async (c: Context) => {
+export const handleGetPostQuotes = async (c: Context) => {
   const postId = Number(c.req.param("postId"));
   try {
-    const comments = await PostService.getPostComments(postId);
-    if (!comments || comments.length === 0) {
-      return c.json({ message: "No comments found" }, 200);
+    const query = parsePaginationQuery(c, 20);
+    const quotes = await PostService.getPostQuotes(
+      postId,
+      query,
+      c.get("user")?.id
+    );
+    if (!quotes) return c.json({ error: "Post not found" }, 404);
+    return c.json(quotes);
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
     }
+    console.error("Error fetching quotes:", error);
+    return c.json({ error: "Failed to fetch quotes" }, 500);
+  }
+};
+
+export const handleGetPostComments = async (c: Context) => {
+  const postId = Number(c.req.param("postId"));
+  try {
+    const query = parsePaginationQuery(c, 20);
+    const comments = await PostService.getPostComments(
+      postId,
+      query,
+      c.get("user")?.id
+    );
+    if (!comments) return c.json({ error: "Post not found" }, 404);
     return c.json(comments);
-  } catch (error) {
+  } catch (error: any) {
+    if (isPaginationError(error)) {
+      return c.json({ error: error.message }, 400);
+    }
     console.error("Error fetching comments:", error);
     return c.json({ error: "Failed to fetch comments" }, 500);
   }
@@ -157,8 +414,76 @@ export const handleAddComment = async (c: Context) => {
   try {
     const comment = await PostService.addComment(userId, postId, body.content);
     return c.json(comment, 201);
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Post not found") {
+      return c.json({ error: "Post not found" }, 404);
+    }
     console.error("Error adding comment:", error);
     return c.json({ error: "Failed to add comment" }, 500);
   }
 };
+
+export const handleUpdateComment = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  const commentId = Number(c.req.param("commentId"));
+  const body = await c.req.json();
+  if (
+    !body.content ||
+    typeof body.content !== "string" ||
+    body.content.trim() === ""
+  ) {
+    return c.json({ error: "Content is required and cannot be empty" }, 400);
+  }
+  try {
+    const comment = await PostService.updateComment(
+      userId,
+      postId,
+      commentId,
+      body.content
+    );
+    if (!comment) {
+      return c.json({ error: "Comment not found or unauthorized" }, 404);
+    }
+    return c.json(comment);
+  } catch (error) {
+    console.error("Error updating comment:", error);
+    return c.json({ error: "Failed to update comment" }, 500);
+  }
+};
+
+export const handleDeleteComment = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  const commentId = Number(c.req.param("commentId"));
+  try {
+    const deleted = await PostService.deleteComment(userId, postId, commentId);
+    if (!deleted) {
+      return c.json({ error: "Comment not found or unauthorized" }, 404);
+    }
+    return c.json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return c.json({ error: "Failed to delete comment" }, 500);
+  }
+};
+
+export const handleLikeComment = async (c: Context) => {
+  const userId = c.get("user").id;
+  const postId = Number(c.req.param("postId"));
+  const commentId = Number(c.req.param("commentId"));
+  try {
+    const liked = await PostService.toggleLikeComment(
+      userId,
+      postId,
+      commentId
+    );
+    return c.json({ message: liked ? "Comment liked" : "Like removed" });
+  } catch (error: any) {
+    if (error.message === "Comment not found") {
+      return c.json({ error: "Comment not found" }, 404);
+    }
+    console.error("Error liking comment:", error);
+    return c.json({ error: "Failed to toggle like" }, 500);
+  }
+};
@@ -29,6 +29,7 @@ export const getProfilePosts = async (c: Context) => {
     const tab = c.req.query("tab") || "posts";
     const limit = parseInt(c.req.query("limit") || "10");
     const offset = parseInt(c.req.query("offset") || "0");
+    const cursor = c.req.query("cursor") || undefined;
 
     // Validasi username
     if (!username) {
@@ -61,27 +62,15 @@ export const getProfilePosts = async (c: Context) => {
       return c.json({ error: "Offset must be a non-negative number" }, 400);
     }
 
-    const posts = await ProfileService.getProfilePosts(username, {
-      tab,
-      limit,
-      offset,
-    });
-
-    // Hitung total count untuk pagination yang lebih akurat
-    let totalCount = posts.length;
-
-    // Jika hasil sama dengan limit, kemungkinan ada data lebih
-    // Untuk production, sebaiknya buat query terpisah untuk count total
-    const hasMore = posts.length === limit;
+    // Cursor diutamakan, offset tetap didukung untuk client lama
+    const result = await ProfileService.getProfilePosts(
+      username,
+      { tab, limit, cursor, offset },
+      c.get("user")?.id
+    );
 
     return c.json({
-      posts,
-      pagination: {
-        limit,
-        offset,
-        count: posts.length,
-        hasMore,
-      },
+      ...result,
       meta: {
         tab,
         username,
@@ -95,10 +84,22 @@ export const getProfilePosts = async (c: Context) => {
       return c.json({ error: "Profile not found" }, 404);
     }
 
+    if (error.message === "Account is private") {
+      return c.json({ error: "This account is private" }, 403);
+    }
+
+    if (error.message === "Blocked") {
+      return c.json({ error: "You cannot view this account" }, 403);
+    }
+
     if (error.message === "Invalid tab parameter") {
       return c.json({ error: "Invalid tab parameter" }, 400);
     }
 
+    if (error.message === "Invalid cursor") {
+      return c.json({ error: "Invalid cursor" }, 400);
+    }
+
     // Prisma specific errors
     if (error.code === "P2025") {
       return c.json({ error: "Profile not found" }, 404);
@@ -0,0 +1,65 @@
+import { Context } from "hono";
+import { REPORT_REASONS, REPORT_TARGET_TYPES } from "../model/report.types";
+import { ReportService } from "../services/report.service";
+
+const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export const createReport = async (c: Context) => {
+  const userId = c.get("user").id;
+  const body = await c.req.json();
+
+  if (!REPORT_TARGET_TYPES.includes(body.targetType)) {
+    return c.json(
+      {
+        error: `targetType must be one of: ${REPORT_TARGET_TYPES.join(", ")}`,
+      },
+      400
+    );
+  }
+  if (!Number.isInteger(body.targetId)) {
+    return c.json({ error: "targetId must be a number" }, 400);
+  }
+  if (!REPORT_REASONS.includes(body.reason)) {
+    return c.json(
+      { error: `Reason must be one of: ${REPORT_REASONS.join(", ")}` },
+      400
+    );
+  }
+  if (body.details !== undefined && typeof body.details !== "string") {
+    return c.json({ error: "Details must be a string" }, 400);
+  }
+  const details = body.details?.trim();
+  if (details && details.length > MAX_REPORT_DETAILS_LENGTH) {
+    return c.json(
+      {
+        error: `Details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters`,
+      },
+      400
+    );
+  }
+  if (body.reason === "other" && !details) {
+    return c.json({ error: "Details are required for reason 'other'" }, 400);
+  }
+
+  try {
+    const report = await ReportService.createReport(userId, {
+      targetType: body.targetType,
+      targetId: body.targetId,
+      reason: body.reason,
+      details,
+    });
+    return c.json(report, 201);
+  } catch (error: any) {
+    if (error.message === "Target not found") {
+      return c.json({ error: "Target not found" }, 404);
+    }
+    if (error.message === "Cannot report yourself") {
+      return c.json({ error: "Cannot report yourself" }, 400);
+    }
+    if (error.message === "Already reported") {
+      return c.json({ error: "You have already reported this" }, 409);
+    }
+    console.error("Error creating report:", error);
+    return c.json({ error: "Failed to create report" }, 500);
+  }
+};
@@ -5,6 +5,8 @@ export const searchContent = async (c: Context) => {
   const query = c.req.query("q");
   const type = c.req.query("type");
   const limitParam = c.req.query("limit");
+  const cursor = c.req.query("cursor") || undefined;
+  const offset = Number(c.req.query("offset") || 0);
 
   // Validasi query parameter
   if (!query) {
@@ -24,22 +26,30 @@ export const searchContent = async (c: Context) => {
     return c.json({ error: "Limit must be a number between 1 and 50" }, 400);
   }
 
-  try {
-    let results;
+  if (isNaN(offset) || offset < 0) {
+    return c.json({ error: "Offset must be a non-negative number" }, 400);
+  }
 
-    if (type === "users") {
-      results = await SearchService.searchUsers(query, limit);
-    } else {
-      results = await SearchService.searchPosts(query, limit);
-    }
+  try {
+    const pagination = { limit, cursor, offset };
+    const results =
+      type === "users"
+        ? await SearchService.searchUsers(query, pagination, c.get("user").id)
+        : await SearchService.searchPosts(
+            query,
+            pagination,
+            c.get("user").id
+          );
 
     return c.json({
       query,
       type,
-      count: results.length,
-      results,
+      ...results,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === "Invalid cursor") {
+      return c.json({ error: "Invalid cursor" }, 400);
+    }
     console.error("Search error:", error);
     return c.json({ error: "Internal server error" }, 500);
   }
@@ -60,7 +70,11 @@ export const getSearchSuggestions = async (c: Context) => {
   }
 
   try {
-    const suggestions = await SearchService.getSearchSuggestions(query, limit);
+    const suggestions = await SearchService.getSearchSuggestions(
+      query,
+      limit,
+      c.get("user").id
+    );
 
     return c.json({
       query,
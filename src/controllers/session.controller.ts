@@ -0,0 +1,37 @@
+import { Context } from "hono";
+import { SessionService } from "../services/session.service";
+
+export const getSessions = async (c: Context) => {
+  const { id: userId, sessionId } = c.get("user");
+  try {
+    const sessions = await SessionService.getSessions(userId, sessionId);
+    return c.json({ data: sessions });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return c.json({ error: "Failed to fetch sessions" }, 500);
+  }
+};
+
+export const revokeSession = async (c: Context) => {
+  const userId = c.get("user").id;
+  const sessionId = c.req.param("sessionId");
+  try {
+    const revoked = await SessionService.revokeSession(userId, sessionId);
+    if (!revoked) return c.json({ error: "Session not found" }, 404);
+    return c.json({ message: "Session revoked" });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return c.json({ error: "Failed to revoke session" }, 500);
+  }
+};
+
+export const revokeOtherSessions = async (c: Context) => {
+  const { id: userId, sessionId } = c.get("user");
+  try {
+    const revoked = await SessionService.revokeOtherSessions(userId, sessionId);
+    return c.json({ message: "Logged out of all other devices", revoked });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return c.json({ error: "Failed to revoke sessions" }, 500);
+  }
+};
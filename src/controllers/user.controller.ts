@@ -2,40 +2,6 @@ import { Context } from "hono";
 import { UserService } from "../services/user.service";
 import { deleteCookie } from "hono/cookie";
 
-/**
- * Controller untuk mengambil semua data pengguna.
- * Tidak memerlukan otentikasi.
- */
-export const getAllUsers = async (c: Context) => {
-  try {
-    // Di sini kita bisa menambahkan logika paginasi dari query params
-    const page = Number(c.req.query("page")) || 1;
-    const limit = Number(c.req.query("limit")) || 20;
-
-    const result = await UserService.getAllUsers({ page, limit });
-
-    if (!result.data || result.data.length === 0) {
-      return c.json({ message: "Data user kosong" }, 404);
-    }
-
-    return c.json({
-      message: "Berhasil mendapatkan semua user",
-      data: result.data,
-      pagination: {
-        total: result.total,
-        page,
-        limit,
-      },
-    });
-  } catch (error: any) {
-    console.error("Error getAllUsers:", error);
-    return c.json(
-      { message: "Internal Server Error", error: error.message },
-      500
-    );
-  }
-};
-
 /**
  * Memperbarui profil PENGGUNA YANG SEDANG LOGIN.
  * Mengambil userId dari context yang sudah disiapkan oleh middleware.
@@ -73,7 +39,9 @@ export const updateUserProfile = async (c: Context) => {
     const updatedUser = await UserService.updateProfile(userId, dataToUpdate);
 
     return c.json({
-      message: "Profil berhasil diperbarui",
+      message: updatedUser.pendingEmail
+        ? "Profil berhasil diperbarui. Email baru akan dipakai setelah diverifikasi."
+        : "Profil berhasil diperbarui",
       user: updatedUser,
     });
   } catch (err: any) {
@@ -129,7 +97,7 @@ export const deleteUserAccount = async (c: Context) => {
  */
 export const getUserSuggestions = async (c: Context) => {
   try {
-    const result = await UserService.getSuggestions();
+    const result = await UserService.getSuggestions(c.get("user")?.id);
     return c.json(result);
   } catch (error: any) {
     console.error("Error getUserSuggestions:", error);
@@ -139,3 +107,41 @@ export const getUserSuggestions = async (c: Context) => {
     );
   }
 };
+
+/**
+ * Memperbarui pengaturan akun PENGGUNA YANG SEDANG LOGIN,
+ * termasuk mengubah akun menjadi private atau publik.
+ */
+export const updateUserSettings = async (c: Context) => {
+  const userId = c.get("user").id;
+  const body = await c.req.json();
+
+  if (body.isPrivate !== undefined && typeof body.isPrivate !== "boolean") {
+    return c.json({ error: "isPrivate harus berupa boolean" }, 400);
+  }
+  // Email hanya bisa diubah lewat PATCH /api/users/update agar alamat baru
+  // diverifikasi dulu
+  if (body.email !== undefined) {
+    return c.json(
+      { error: "Email diubah lewat PATCH /api/users/update" },
+      400
+    );
+  }
+  for (const field of ["displayName", "bio"]) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      return c.json({ error: `${field} harus berupa string` }, 400);
+    }
+  }
+
+  try {
+    await UserService.updateSettings(userId, {
+      displayName: body.displayName,
+      bio: body.bio,
+      isPrivate: body.isPrivate,
+    });
+    return c.json({ message: "Pengaturan berhasil diperbarui" });
+  } catch (err: any) {
+    console.error("Error in updateUserSettings controller:", err);
+    return c.json({ error: "Gagal memperbarui pengaturan" }, 500);
+  }
+};
@@ -1,10 +1,23 @@
 import { Hono } from "hono";
+import { serveStatic } from "hono/bun";
+import { UPLOAD_DIR } from "./application/storage";
 import auth from "./routes/auth";
 import user from "../src/routes/user";
 import post from "./routes/post";
 import follow from "./routes/follow";
 import search from "./routes/search";
 import profile from "./routes/profile"
+import hashtag from "./routes/hashtag";
+import notification from "./routes/notification";
+import bookmark from "./routes/bookmark";
+import media from "./routes/media";
+import draft from "./routes/draft";
+import block from "./routes/block";
+import keywordFilter from "./routes/keyword-filter";
+import report from "./routes/report";
+import moderation from "./routes/moderation";
+import admin from "./routes/admin";
+import session from "./routes/session";
 
 const app = new Hono();
 
@@ -16,8 +29,49 @@ app.route("/api/posts", post);
 
 app.route("/api/users", follow);
 
+app.route("/api/users", block);
+
 app.route("/api/search", search);
 
 app.route("/api/profile", profile);
 
+app.route("/api/hashtags", hashtag);
+
+app.route("/api/notifications", notification);
+
+app.route("/api/bookmarks", bookmark);
+
+app.route("/api/media", media);
+
+app.route("/api/drafts", draft);
+
+app.route("/api/filters", keywordFilter);
+
+app.route("/api/reports", report);
+
+app.route("/api/moderation", moderation);
+
+app.route("/api/admin", admin);
+
+app.route("/api/sessions", session);
+
+// File dari storage lokal. URL media adalah capability URL: siapa pun yang
+// memegang link bisa membukanya tanpa login, karena <img>/<video> tidak
+// mengirim header Authorization. Keamanannya bergantung pada storage key
+// acak (UUID) yang hanya dikirim di response yang sudah lolos pengecekan
+// visibilitas postingan. Link yang sudah dibagikan tetap berlaku walaupun
+// postingan kemudian dihapus atau akunnya menjadi private.
+app.use(
+  "/uploads/*",
+  serveStatic({
+    root: UPLOAD_DIR,
+    rewriteRequestPath: (path) => path.replace(/^\/uploads/, ""),
+    onFound: (_path, c) => {
+      // Jangan disimpan cache bersama (proxy/CDN) atau diindeks mesin pencari
+      c.header("Cache-Control", "private, max-age=86400");
+      c.header("X-Robots-Tag", "noindex");
+    },
+  })
+);
+
 export default app;
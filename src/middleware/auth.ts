@@ -1,8 +1,14 @@
 import { Context, Next } from "hono";
+import { prisma } from "../application/database";
+import { UserRole } from "../model/user.types";
+import { SessionService } from "../services/session.service";
 import { verifyJwt } from "../utils/jwt"; 
+import { hasRole } from "../utils/role";
 interface TokenPayload {
   id: number;
   username: string;
+  role: UserRole;
+  sid: string;
   type: string; 
   iat: number;
   exp: number;
@@ -27,9 +33,44 @@ export const authMiddleware = async (c: Context, next: Next) => {
       return c.json({ error: "Unauthorized: Tipe token tidak valid." }, 401);
     }
 
+    // Token dari sesi yang sudah dicabut (logout, logout perangkat lain,
+    // reset password) langsung ditolak walaupun belum kedaluwarsa
+    const session = decodedPayload.sid
+      ? await prisma.session.findUnique({
+          where: { id: decodedPayload.sid },
+          select: {
+            userId: true,
+            revokedAt: true,
+            lastUsedAt: true,
+            user: { select: { isActive: true, role: true } },
+          },
+        })
+      : null;
+    if (
+      !session ||
+      session.revokedAt ||
+      session.userId !== decodedPayload.id
+    ) {
+      return c.json({ error: "Unauthorized: Sesi tidak valid." }, 401);
+    }
+
+    // Akun yang ditangguhkan langsung kehilangan akses walaupun tokennya
+    // belum kedaluwarsa. Role juga diambil dari database agar perubahan role
+    // langsung berlaku; role di dalam token hanya untuk klien.
+    const account = session.user;
+    if (!account.isActive) {
+      return c.json({ error: "Akun Anda ditangguhkan." }, 403);
+    }
+
+    SessionService.touch(decodedPayload.sid, session.lastUsedAt).catch(
+      (error) => console.error("Error updating session:", error)
+    );
+
     c.set("user", {
       id: decodedPayload.id,
       username: decodedPayload.username,
+      role: account.role as UserRole,
+      sessionId: decodedPayload.sid,
     });
 
     await next();
@@ -44,3 +85,27 @@ export const authMiddleware = async (c: Context, next: Next) => {
     );
   }
 };
+
+/**
+ * Dipasang setelah authMiddleware: hanya user dengan role minimal `role`
+ * yang boleh lanjut (admin juga lolos pemeriksaan moderator).
+ */
+export const requireRole = (role: UserRole) => async (c: Context, next: Next) => {
+  if (!hasRole(c.get("user")?.role, role)) {
+    return c.json({ error: "Forbidden: Akses tidak diizinkan." }, 403);
+  }
+  await next();
+};
+
+/**
+ * Seperti authMiddleware, tetapi request tanpa token tetap diteruskan
+ * sebagai pengunjung anonim (c.get("user") bernilai undefined).
+ */
+export const optionalAuthMiddleware = async (c: Context, next: Next) => {
+  const authHeader = c.req.header("Authorization");
+  if (!authHeader) {
+    await next();
+    return;
+  }
+  return authMiddleware(c, next);
+};
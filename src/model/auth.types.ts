@@ -29,6 +29,25 @@ export interface AuthResponse {
   };
   token?: string; // Opsional, hanya untuk register/login
   message: string;
-  resetToken?: string; // Opsional, hanya untuk forgot password
-  resetLink?: string; // Opsional, hanya untuk forgot password
+}
+
+// Perangkat yang melakukan login, dicatat pada sesi
+export interface SessionClientInfo {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface SessionResponse {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  isCurrent: boolean;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface TwoFactorLoginInput {
+  twoFactorToken: string;
+  code: string;
 }
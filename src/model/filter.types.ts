@@ -0,0 +1,31 @@
+export type FilterScope = "home" | "search" | "notifications" | "replies";
+
+export const FILTER_SCOPES: FilterScope[] = [
+  "home",
+  "search",
+  "notifications",
+  "replies",
+];
+
+// hide: postingan dibuang dari response, warn: ditandai `filtered`
+export type FilterAction = "hide" | "warn";
+
+export const FILTER_ACTIONS: FilterAction[] = ["hide", "warn"];
+
+export interface KeywordFilterPayload {
+  keyword: string;
+  wholeWord?: boolean;
+  scopes: FilterScope[];
+  action?: FilterAction;
+  expiresAt?: string | null;
+}
+
+export interface KeywordFilterResponse {
+  id: number;
+  keyword: string;
+  wholeWord: boolean;
+  scopes: FilterScope[];
+  action: FilterAction;
+  expiresAt: string | null;
+  createdAt: string;
+}
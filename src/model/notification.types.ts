@@ -0,0 +1,46 @@
+export type NotificationType =
+  | "like"
+  | "follow"
+  | "comment"
+  | "reply"
+  | "quote"
+  | "mention"
+  | "poll_closed"
+  | "follow_request"
+  | "follow_accepted"
+  | "moderation_warning";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "like",
+  "follow",
+  "comment",
+  "reply",
+  "quote",
+  "mention",
+  "poll_closed",
+  "follow_request",
+  "follow_accepted",
+  "moderation_warning",
+];
+
+export interface NotificationResponse {
+  id: number;
+  type: NotificationType;
+  message: string;
+  isRead: boolean;
+  createdAt: string;
+  actor: {
+    id: number;
+    username: string;
+    displayName: string | null;
+  };
+  actorCount: number;
+  post: {
+    id: number;
+    content: string;
+    userId: number;
+  } | null;
+  commentId: number | null;
+  filtered?: boolean; // cocok dengan filter kata kunci "warn" milik user
+  filteredKeywords?: string[];
+}
@@ -2,6 +2,7 @@ export interface PaginationQuery {
   page?: number;
   limit?: number;
   cursor?: string;
+  offset?: number;
 }
 
 export interface PaginatedResponse<T> {
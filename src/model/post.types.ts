@@ -1,6 +1,79 @@
+import { PaginatedResponse } from "./paging";
+
+// public: semua user, followers: hanya follower penulis,
+// mentioned: hanya user yang di-mention. Penulis selalu bisa melihat.
+export type PostVisibility = "public" | "followers" | "mentioned";
+
+export const POST_VISIBILITIES: PostVisibility[] = [
+  "public",
+  "followers",
+  "mentioned",
+];
+
 export interface PostPayload {
   content: string;
   parentPostId?: number; // for replies
+  mediaIds?: number[]; // maksimal 4, hasil upload dari /api/media
+  visibility?: PostVisibility;
+  poll?: PollPayload;
+  isDraft?: boolean; // simpan sebagai draft, tidak diterbitkan
+  scheduledAt?: string; // ISO date, terbitkan otomatis pada waktu ini
+}
+
+export interface DraftPayload {
+  content?: string;
+  mediaIds?: number[];
+  visibility?: PostVisibility;
+  scheduledAt?: string | null; // null mengembalikan ke draft biasa
+}
+
+export interface DraftResponse {
+  id: number;
+  content: string;
+  visibility: PostVisibility;
+  scheduledAt: string | null;
+  // Diisi jika penerbitan terjadwal gagal; draft tidak dicoba lagi sampai
+  // dijadwalkan ulang
+  publishError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  media: MediaAttachment[];
+}
+
+export interface PollPayload {
+  options: string[]; // 2-4 pilihan
+  closesAt: string; // ISO date
+}
+
+export interface PollResponse {
+  id: number;
+  closesAt: string;
+  isClosed: boolean;
+  votedOptionId: number | null;
+  // null selama user belum memilih dan polling belum ditutup
+  totalVotes: number | null;
+  options: {
+    id: number;
+    text: string;
+    voteCount: number | null;
+  }[];
+}
+
+export interface MediaAttachment {
+  id: number;
+  url: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  altText: string | null;
+}
+
+export interface LinkPreviewCard {
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
 }
 
 export interface UpdatePostRequest {
@@ -10,9 +83,11 @@ export interface UpdatePostRequest {
 export interface PostResponse {
   id: number;
   content: string;
+  visibility?: PostVisibility;
   likeCount: number;
   commentCount: number;
   repostCount: number;
+  quoteCount?: number;
   createdAt: Date;
   updatedAt: Date | null;
   isEdited: boolean;
@@ -23,8 +98,21 @@ export interface PostResponse {
     displayName: string | null;
   };
   parentPost?: PostResponse | null;
+  quotedPost?: PostResponse | PostTombstone | null;
+  media?: MediaAttachment[];
+  linkPreview?: LinkPreviewCard | null;
+  poll?: PollResponse | null;
   isLiked?: boolean;
   isReposted?: boolean;
+  isBookmarked?: boolean;
+  repostedBy?: {
+    id: number;
+    username: string;
+    displayName: string | null;
+  } | null;
+  repostedAt?: Date | null;
+  filtered?: boolean; // cocok dengan filter kata kunci "warn" milik viewer
+  filteredKeywords?: string[];
 }
 
 export interface CreateCommentRequest {
@@ -34,4 +122,21 @@ export interface CreateCommentRequest {
 export interface CreateRepostRequest {
   quoteContent?: string;
   isQuotePost?: boolean;
-}
\ No newline at end of file
+  visibility?: PostVisibility; // visibility quote post yang dibuat
+}
+export interface PostTombstone {
+  id: number;
+  parentPostId: number | null;
+  createdAt: Date;
+  isDeleted: true;
+}
+
+export type ThreadNode = (PostResponse | PostTombstone) & {
+  replies?: PaginatedResponse<ThreadNode>;
+};
+
+export interface ThreadResponse {
+  ancestors: ThreadNode[];
+  post: ThreadNode;
+  replies: PaginatedResponse<ThreadNode>;
+}
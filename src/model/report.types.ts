@@ -0,0 +1,106 @@
+export type ReportTargetType = "post" | "comment" | "user";
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = [
+  "post",
+  "comment",
+  "user",
+];
+
+export type ReportReason =
+  | "spam"
+  | "harassment"
+  | "hate_speech"
+  | "violence"
+  | "nudity"
+  | "misinformation"
+  | "self_harm"
+  | "other";
+
+export const REPORT_REASONS: ReportReason[] = [
+  "spam",
+  "harassment",
+  "hate_speech",
+  "violence",
+  "nudity",
+  "misinformation",
+  "self_harm",
+  "other",
+];
+
+export type ReportStatus = "open" | "claimed" | "resolved" | "dismissed";
+
+export const REPORT_STATUSES: ReportStatus[] = [
+  "open",
+  "claimed",
+  "resolved",
+  "dismissed",
+];
+
+export type ModerationActionType =
+  | "resolve_report"
+  | "dismiss_report"
+  | "hide_post"
+  | "unhide_post"
+  | "suspend_user"
+  | "unsuspend_user"
+  | "warn_user";
+
+// Tindakan yang bisa dijalankan sekaligus saat me-resolve laporan
+export type ReportResolutionAction = "hide_post" | "suspend_user" | "warn_user";
+
+export const REPORT_RESOLUTION_ACTIONS: ReportResolutionAction[] = [
+  "hide_post",
+  "suspend_user",
+  "warn_user",
+];
+
+export interface ReportPayload {
+  targetType: ReportTargetType;
+  targetId: number;
+  reason: ReportReason;
+  details?: string;
+}
+
+interface ModerationUser {
+  id: number;
+  username: string;
+  displayName: string | null;
+}
+
+export interface ReportResponse {
+  id: number;
+  targetType: ReportTargetType;
+  postId: number | null;
+  commentId: number | null;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  reporter: ModerationUser;
+  // null jika akun yang dilaporkan sudah dihapus
+  reportedUser: ModerationUser | null;
+  moderator: ModerationUser | null;
+  post: { id: number; content: string; isDeleted: boolean; isHidden: boolean } | null;
+  comment: { id: number; content: string | null; isDeleted: boolean } | null;
+  resolution: string | null;
+  claimedAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+}
+
+export interface ModerationActionResponse {
+  id: number;
+  action: ModerationActionType;
+  // null jika akun moderator sudah dihapus
+  moderator: ModerationUser | null;
+  targetUser: ModerationUser | null;
+  postId: number | null;
+  reportId: number | null;
+  reason: string;
+  createdAt: string;
+}
+
+export interface WarningResponse {
+  id: number;
+  reason: string;
+  createdAt: string;
+}
@@ -1,21 +1,36 @@
+export type UserRole = "user" | "moderator" | "admin";
+
+export const USER_ROLES: UserRole[] = ["user", "moderator", "admin"];
+
 export interface UserProfile {
   id: number;
   username: string;
-  email: string;
+  email?: string; // hanya untuk pemilik akun dan admin
+  pendingEmail?: string | null; // email baru yang menunggu verifikasi
   displayName: string | null;
   bio: string | null;
   followerCount: number;
   followingCount: number;
   createdAt: Date;
   isVerified: boolean;
+  isPrivate?: boolean;
   isFollowing?: boolean;
 }
 
-export interface UpdateProfileRequest {
-  displayName: string;
-  username: string,
-  bio: string;
+export interface AdminUserView extends UserProfile {
   email: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLogin: Date | null;
+}
+
+export type FollowStatus = "none" | "pending" | "following";
+
+export interface UpdateProfileRequest {
+  displayName?: string;
+  username?: string,
+  bio?: string;
+  email?: string; // baru berlaku setelah diverifikasi
 }
 
 export interface SearchUsersQuery {
@@ -27,7 +42,6 @@ export interface SearchUsersQuery {
 export interface UserSettingsRequest {
   displayName?: string;
   bio?: string;
-  email?: string;
   isPrivate?: boolean;
 }
 
@@ -0,0 +1,14 @@
+import { Hono } from "hono";
+import * as AdminController from "../controllers/admin.controller";
+import { authMiddleware, requireRole } from "../middleware/auth";
+
+const admin = new Hono();
+
+admin.use("*", authMiddleware, requireRole("admin"));
+
+// GET /api/admin/users?page={number}&limit={number}&role={role}
+admin.get("/users", AdminController.getAllUsers);
+// PATCH /api/admin/users/:userId/role { role: "user" | "moderator" | "admin" }
+admin.patch("/users/:userId/role", AdminController.updateUserRole);
+
+export default admin;
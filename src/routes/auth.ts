@@ -1,5 +1,6 @@
 import { Hono } from "hono";
 import * as AuthController from "../controllers/auth.controller";
+import { authMiddleware } from "../middleware/auth";
 
 const auth = new Hono();
 
@@ -7,6 +8,10 @@ auth.post("/register", AuthController.registerUser);
 
 auth.post("/login", AuthController.loginUser);
 
+// Langkah kedua login jika 2FA aktif:
+// POST /api/auth/login/2fa { twoFactorToken, code } - code TOTP atau kode cadangan
+auth.post("/login/2fa", AuthController.loginTwoFactor);
+
 auth.post("/forgot-password", AuthController.forgotPassword);
 
 auth.post("/refresh", AuthController.handleRefreshToken);
@@ -15,4 +20,29 @@ auth.post("/reset-password", AuthController.resetPassword);
 
 auth.post("/logout", AuthController.logoutUser);
 
+// POST /api/auth/verify-email { token } - token dari link di email
+auth.post("/verify-email", AuthController.verifyEmail);
+
+// Kirim ulang link verifikasi, dibatasi satu kali per menit
+auth.post(
+  "/verify-email/resend",
+  authMiddleware,
+  AuthController.resendVerificationEmail
+);
+
+// Two-factor authentication (TOTP)
+auth.get("/2fa", authMiddleware, AuthController.getTwoFactorStatus);
+// Membuat secret + otpauth URI; 2FA baru aktif setelah /2fa/confirm
+auth.post("/2fa/enroll", authMiddleware, AuthController.enrollTwoFactor);
+// POST /api/auth/2fa/confirm { code } - mengembalikan kode cadangan
+auth.post("/2fa/confirm", authMiddleware, AuthController.confirmTwoFactor);
+// POST /api/auth/2fa/disable { password, code }
+auth.post("/2fa/disable", authMiddleware, AuthController.disableTwoFactor);
+// POST /api/auth/2fa/recovery-codes { code } - ganti semua kode cadangan
+auth.post(
+  "/2fa/recovery-codes",
+  authMiddleware,
+  AuthController.regenerateRecoveryCodes
+);
+
 export default auth;
@@ -0,0 +1,17 @@
+import { Hono } from "hono";
+import * as BlockController from "../controllers/block.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const block = new Hono();
+
+block.use("*", authMiddleware);
+
+// GET /api/users/blocks dan /api/users/mutes - hanya milik sendiri
+block.get("/blocks", BlockController.getBlocks);
+block.get("/mutes", BlockController.getMutes);
+block.post("/:userId/block", BlockController.blockUser);
+block.delete("/:userId/block", BlockController.unblockUser);
+block.post("/:userId/mute", BlockController.muteUser);
+block.delete("/:userId/mute", BlockController.unmuteUser);
+
+export default block;
@@ -0,0 +1,12 @@
+import { Hono } from "hono";
+import * as BookmarkController from "../controllers/bookmark.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const bookmark = new Hono();
+
+bookmark.use("*", authMiddleware);
+
+// GET /api/bookmarks?cursor={cursor}&limit={number} - hanya milik sendiri
+bookmark.get("/", BookmarkController.getBookmarks);
+
+export default bookmark;
@@ -0,0 +1,21 @@
+import { Hono } from "hono";
+import * as DraftController from "../controllers/draft.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const draft = new Hono();
+
+draft.use("*", authMiddleware);
+
+// Draft dibuat lewat POST /api/posts dengan isDraft: true atau scheduledAt
+// GET /api/drafts?cursor={cursor}&limit={number} - hanya milik sendiri
+draft.get("/", DraftController.getDrafts);
+// GET /api/drafts/scheduled - postingan terjadwal yang belum terbit
+draft.get("/scheduled", DraftController.getScheduledPosts);
+draft.get("/:draftId", DraftController.getDraft);
+// PUT /api/drafts/:draftId { content?, mediaIds?, scheduledAt?: string | null }
+draft.put("/:draftId", DraftController.updateDraft);
+// DELETE juga membatalkan postingan terjadwal
+draft.delete("/:draftId", DraftController.deleteDraft);
+draft.post("/:draftId/publish", DraftController.publishDraft);
+
+export default draft;
@@ -11,4 +11,22 @@ follow.get("/:userId/following", FollowController.getFollowing);
 follow.get("/:userId/follow-status", FollowController.getFollowStatus);
 follow.delete("/:userId/follow", FollowController.unfollowUser);
 
+// Permintaan follow untuk akun private
+follow.get(
+  "/follow-requests/incoming",
+  FollowController.getIncomingFollowRequests
+);
+follow.get(
+  "/follow-requests/outgoing",
+  FollowController.getOutgoingFollowRequests
+);
+follow.post(
+  "/follow-requests/:requestId/approve",
+  FollowController.approveFollowRequest
+);
+follow.post(
+  "/follow-requests/:requestId/reject",
+  FollowController.rejectFollowRequest
+);
+
 export default follow;
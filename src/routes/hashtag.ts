@@ -0,0 +1,15 @@
+import { Hono } from "hono";
+import * as HashtagController from "../controllers/hashtag.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const hashtag = new Hono();
+
+hashtag.use("*", authMiddleware);
+
+// GET /api/hashtags/trending?window={hours}&limit={number}
+hashtag.get("/trending", HashtagController.getTrendingHashtags);
+
+// GET /api/hashtags/:tag?sort={latest|top}&cursor={cursor}&limit={number}
+hashtag.get("/:tag", HashtagController.getHashtagPosts);
+
+export default hashtag;
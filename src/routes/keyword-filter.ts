@@ -0,0 +1,17 @@
+import { Hono } from "hono";
+import * as KeywordFilterController from "../controllers/keyword-filter.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const keywordFilter = new Hono();
+
+keywordFilter.use("*", authMiddleware);
+
+// GET /api/filters - semua filter milik sendiri, termasuk yang kedaluwarsa
+keywordFilter.get("/", KeywordFilterController.getFilters);
+// POST /api/filters { keyword, scopes: ("home" | "search" | "notifications" | "replies")[],
+//   wholeWord?: boolean, action?: "hide" | "warn", expiresAt?: string | null }
+keywordFilter.post("/", KeywordFilterController.createFilter);
+keywordFilter.put("/:filterId", KeywordFilterController.updateFilter);
+keywordFilter.delete("/:filterId", KeywordFilterController.deleteFilter);
+
+export default keywordFilter;
@@ -0,0 +1,23 @@
+import { Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import * as MediaController from "../controllers/media.controller";
+import { authMiddleware } from "../middleware/auth";
+import { MAX_UPLOAD_BODY_BYTES } from "../services/media.service";
+
+const media = new Hono();
+
+media.use("*", authMiddleware);
+
+// POST /api/media (multipart/form-data: file, altText?, width?, height?)
+// Body yang terlalu besar ditolak sebelum dibaca seluruhnya ke memori
+media.post(
+  "/",
+  bodyLimit({
+    maxSize: MAX_UPLOAD_BODY_BYTES,
+    onError: (c) => c.json({ error: "File too large" }, 413),
+  }),
+  MediaController.uploadMedia
+);
+media.patch("/:mediaId", MediaController.updateMediaAltText);
+
+export default media;
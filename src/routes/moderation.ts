@@ -0,0 +1,39 @@
+import { Hono } from "hono";
+import * as ModerationController from "../controllers/moderation.controller";
+import { authMiddleware, requireRole } from "../middleware/auth";
+
+const moderation = new Hono();
+
+moderation.use("*", authMiddleware);
+
+// GET /api/moderation/warnings - peringatan yang diterima user sendiri
+moderation.get("/warnings", ModerationController.getMyWarnings);
+
+// Semua route di bawah ini khusus moderator
+moderation.use("/reports/*", requireRole("moderator"));
+moderation.use("/posts/*", requireRole("moderator"));
+moderation.use("/users/*", requireRole("moderator"));
+moderation.use("/actions", requireRole("moderator"));
+
+// GET /api/moderation/reports?status={status}&mine={boolean}&cursor={cursor}
+// Tanpa status: laporan open dan claimed, dari yang terlama
+moderation.get("/reports", ModerationController.getReports);
+moderation.get("/reports/:reportId", ModerationController.getReport);
+moderation.post("/reports/:reportId/claim", ModerationController.claimReport);
+// POST /api/moderation/reports/:reportId/resolve { reason,
+//   action?: "hide_post" | "suspend_user" | "warn_user" }
+moderation.post("/reports/:reportId/resolve", ModerationController.resolveReport);
+// POST /api/moderation/reports/:reportId/dismiss { reason }
+moderation.post("/reports/:reportId/dismiss", ModerationController.dismissReport);
+
+// Tindakan langsung, semuanya dengan body { reason }
+moderation.post("/posts/:postId/hide", ModerationController.hidePost);
+moderation.post("/posts/:postId/unhide", ModerationController.unhidePost);
+moderation.post("/users/:userId/suspend", ModerationController.suspendUser);
+moderation.post("/users/:userId/unsuspend", ModerationController.unsuspendUser);
+moderation.post("/users/:userId/warn", ModerationController.warnUser);
+
+// GET /api/moderation/actions?userId={id} - log audit tindakan moderator
+moderation.get("/actions", ModerationController.getActions);
+
+export default moderation;
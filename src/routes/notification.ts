@@ -0,0 +1,15 @@
+import { Hono } from "hono";
+import * as NotificationController from "../controllers/notification.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const notification = new Hono();
+
+notification.use("*", authMiddleware);
+
+// GET /api/notifications?type={type}&unread={true|false}&cursor={cursor}
+notification.get("/", NotificationController.getNotifications);
+notification.get("/unread-count", NotificationController.getUnreadCount);
+notification.patch("/read-all", NotificationController.markAllAsRead);
+notification.patch("/:notificationId/read", NotificationController.markAsRead);
+
+export default notification;
@@ -3,29 +3,52 @@ import { Hono } from "hono";
 import {
   handleCreatePost,
   handleGetPosts,
+  handleGetHomeTimeline,
   handleUpdatePost,
   handleDeletePost,
   handleGetPostDetail,
+  handleGetPostThread,
   handleGetPostComments,
   handleAddComment,
   handleLikePost,
   handleRepost,
-  handleQuotePost
+  handleQuotePost,
+  handleUpdateComment,
+  handleDeleteComment,
+  handleLikeComment,
+  handleGetPostHistory,
+  handlePinPost,
+  handleUnpinPost,
+  handleGetPostQuotes,
 } from "../controllers/post.controller";
+import { addBookmark, removeBookmark } from "../controllers/bookmark.controller";
+import { handleVotePoll } from "../controllers/poll.controller";
 import { authMiddleware } from "../middleware/auth";
 
 const postRoutes = new Hono();
 postRoutes.use(authMiddleware);
 postRoutes.get("/", handleGetPosts);
+postRoutes.get("/timeline", handleGetHomeTimeline);
 postRoutes.post("/", handleCreatePost);
 postRoutes.put("/:postId", handleUpdatePost);
 postRoutes.delete("/:postId", handleDeletePost);
 postRoutes.get("/:postId", handleGetPostDetail);
+postRoutes.get("/:postId/thread", handleGetPostThread);
+postRoutes.get("/:postId/history", handleGetPostHistory);
 postRoutes.get("/:postId/comments", handleGetPostComments);
 postRoutes.post("/:postId/comments", handleAddComment);
+postRoutes.put("/:postId/comments/:commentId", handleUpdateComment);
+postRoutes.delete("/:postId/comments/:commentId", handleDeleteComment);
+postRoutes.post("/:postId/comments/:commentId/like", handleLikeComment);
 postRoutes.post("/:postId/like", handleLikePost);
+postRoutes.post("/:postId/pin", handlePinPost);
+postRoutes.delete("/:postId/pin", handleUnpinPost);
+postRoutes.post("/:postId/bookmark", addBookmark);
+postRoutes.delete("/:postId/bookmark", removeBookmark);
 postRoutes.post("/:postId/repost", handleRepost);
 postRoutes.post("/:postId/quote", handleQuotePost);
+postRoutes.get("/:postId/quotes", handleGetPostQuotes);
+postRoutes.post("/:postId/poll/vote", handleVotePoll);
 
 
 export default postRoutes;
@@ -1,8 +1,12 @@
 import { Hono } from "hono";
 import * as ProfileController from "../controllers/profile.controller";
+import { optionalAuthMiddleware } from "../middleware/auth";
 
 const profileRoutes = new Hono();
 
+// Token opsional, dipakai untuk menentukan postingan yang boleh dilihat
+profileRoutes.use("*", optionalAuthMiddleware);
+
 // GET /api/profile/:username - Get user profile
 profileRoutes.get("/:username", ProfileController.getProfile);
 
@@ -0,0 +1,13 @@
+import { Hono } from "hono";
+import * as ReportController from "../controllers/report.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const report = new Hono();
+
+report.use("*", authMiddleware);
+
+// POST /api/reports { targetType: "post" | "comment" | "user", targetId,
+//   reason, details? } - details wajib untuk reason "other"
+report.post("/", ReportController.createReport);
+
+export default report;
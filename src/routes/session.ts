@@ -0,0 +1,16 @@
+import { Hono } from "hono";
+import * as SessionController from "../controllers/session.controller";
+import { authMiddleware } from "../middleware/auth";
+
+const session = new Hono();
+
+session.use("*", authMiddleware);
+
+// GET /api/sessions - perangkat yang sedang login, sesi ini ditandai isCurrent
+session.get("/", SessionController.getSessions);
+// Logout dari semua perangkat kecuali yang sedang dipakai
+session.post("/revoke-others", SessionController.revokeOtherSessions);
+// Logout dari satu perangkat; access token sesi itu langsung ditolak
+session.delete("/:sessionId", SessionController.revokeSession);
+
+export default session;
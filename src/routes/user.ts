@@ -1,16 +1,15 @@
 import { Hono } from "hono";
 import {
   deleteUserAccount,
-  getAllUsers,
   updateUserProfile,
+  updateUserSettings,
 } from "../controllers/user.controller";
 import { authMiddleware } from "../middleware/auth";
 
 const user = new Hono();
 
-user.get("/", getAllUsers);
-
 user.patch("/update", authMiddleware, updateUserProfile);
+user.patch("/settings", authMiddleware, updateUserSettings);
 user.delete("/delete", authMiddleware, deleteUserAccount);
 
 export default user;
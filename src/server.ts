@@ -1,5 +1,10 @@
 import { serve } from "bun";
 import app from "./index"; 
+import { scheduleJob } from "./application/scheduler";
+import { DraftService } from "./services/draft.service";
+import { MediaService } from "./services/media.service";
+import { PollService } from "./services/poll.service";
+import { RefreshTokenService } from "./services/refresh-token.service";
 
 serve({
   fetch: app.fetch,
@@ -8,3 +13,23 @@ serve({
 });
 
 console.log("✅ Server running on http://0.0.0.0:3000");
+
+// Hapus upload yang tidak pernah dilampirkan ke postingan
+scheduleJob("cleanup-orphaned-media", 60 * 60 * 1000, () =>
+  MediaService.cleanupOrphanedMedia()
+);
+
+// Beri tahu pemilih ketika polling sudah ditutup
+scheduleJob("notify-closed-polls", 60 * 1000, () =>
+  PollService.notifyClosedPolls()
+);
+
+// Terbitkan postingan terjadwal yang sudah jatuh tempo
+scheduleJob("publish-scheduled-posts", 30 * 1000, () =>
+  DraftService.publishDuePosts()
+);
+
+// Hapus refresh token dan sesi yang sudah kedaluwarsa
+scheduleJob("cleanup-expired-refresh-tokens", 60 * 60 * 1000, () =>
+  RefreshTokenService.cleanupExpired()
+);
@@ -1,14 +1,69 @@
 import { prisma } from "../application/database";
 import bcrypt from "bcrypt";
+import { frontendLink, getMailer } from "../application/mailer";
 import { signJwt, verifyJwt } from "../utils/jwt";
+import { generateToken, hashToken } from "../utils/token";
 import {
   LoginInput,
   RegisterInput,
+  SessionClientInfo,
   ForgotPasswordInput,
   ResetPasswordInput,
+  TwoFactorLoginInput,
 } from "../model/auth.types";
+import { EmailVerificationService } from "./email-verification.service";
+import { RefreshTokenService } from "./refresh-token.service";
+import { SessionService } from "./session.service";
+import { TwoFactorService } from "./two-factor.service";
+
+// Access token membawa role agar klien bisa menyesuaikan tampilan; otorisasi
+// di server tetap memakai role dari database. sid menautkan token ke sesinya
+// sehingga token ikut tidak berlaku saat sesi dicabut.
+const signAccessToken = (
+  user: { id: number; username: string; role: string },
+  sessionId: string
+) =>
+  signJwt(
+    {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      sid: sessionId,
+      type: "login",
+    },
+    "15m"
+  );
+
+// Token sementara antara password benar dan kode 2FA dimasukkan
+const TWO_FACTOR_PENDING_TTL = "5m";
+
+/**
+ * Membuat sesi baru dan token untuk user yang sudah lolos autentikasi.
+ */
+const startSession = async (
+  user: { id: number; username: string; email: string; role: string },
+  client: SessionClientInfo
+) => {
+  const { sessionId, refreshToken, refreshTokenExpiresIn } =
+    await SessionService.start(user.id, client);
+
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+    },
+    token: signAccessToken(user, sessionId),
+    refreshToken,
+    refreshTokenExpiresIn,
+  };
+};
 
-export const registerUserService = async (data: RegisterInput) => {
+export const registerUserService = async (
+  data: RegisterInput,
+  client: SessionClientInfo
+) => {
   const { username, email, password, confirmPassword } = data;
 
   if (!username || !email || !password || !confirmPassword) {
@@ -30,27 +85,25 @@ export const registerUserService = async (data: RegisterInput) => {
     data: { username, email, passwordHash },
   });
 
-  const token = signJwt({ id: user.id, username: user.username, type: "login" }, "15m");
-  const refreshTokenExpiresInSeconds = 7 * 24 * 60 * 60;
-  const refreshToken = signJwt({ userId: user.id }, `${refreshTokenExpiresInSeconds}s`);
-
-  await prisma.refreshToken.create({
-    data: {
-      token: refreshToken,
-      userId: user.id,
-      expiresAt: new Date(Date.now() + refreshTokenExpiresInSeconds * 1000),
-    },
-  });
+  // Gagal kirim email tidak membatalkan registrasi; user bisa minta kirim ulang
+  try {
+    await EmailVerificationService.sendVerification(user.id);
+  } catch (error) {
+    console.error("Error sending verification email:", error);
+  }
 
-  return {
-    user: { id: user.id, username: user.username, email: user.email },
-    token,
-    refreshToken,
-    refreshTokenExpiresIn: refreshTokenExpiresInSeconds,
-  };
+  return startSession(user, client);
 };
 
-export const loginUserService = async (data: LoginInput) => {
+/**
+ * Login dengan username/email dan password. Jika 2FA aktif, belum ada sesi
+ * yang dibuat: yang dikembalikan hanya token sementara untuk
+ * completeTwoFactorLoginService.
+ */
+export const loginUserService = async (
+  data: LoginInput,
+  client: SessionClientInfo
+) => {
   const { username, password } = data;
 
   if (!username || !password) {
@@ -69,55 +122,104 @@ export const loginUserService = async (data: LoginInput) => {
   if (!passwordMatch) {
     throw new Error("Password salah");
   }
+  if (!user.isActive) {
+    throw new Error("Akun ditangguhkan");
+  }
 
-  const token = signJwt({ id: user.id, username: user.username, type: "login" }, "15m");
-  const refreshTokenExpiresInSeconds = 7 * 24 * 60 * 60;
-  const refreshToken = signJwt({ userId: user.id }, `${refreshTokenExpiresInSeconds}s`);
+  if (user.totpEnabledAt) {
+    return {
+      twoFactorRequired: true as const,
+      twoFactorToken: signJwt(
+        { id: user.id, type: "2fa_pending" },
+        TWO_FACTOR_PENDING_TTL
+      ),
+    };
+  }
 
-  await prisma.refreshToken.create({
-    data: {
-      token: refreshToken,
-      userId: user.id,
-      expiresAt: new Date(Date.now() + refreshTokenExpiresInSeconds * 1000),
-    },
-  });
+  const session = await startSession(user, client);
+  return { twoFactorRequired: false as const, ...session };
+};
 
-  return {
-    user: { id: user.id, username: user.username, email: user.email },
-    token,
-    refreshToken,
-    refreshTokenExpiresIn: refreshTokenExpiresInSeconds,
-  };
+/**
+ * Langkah kedua login untuk akun dengan 2FA: token dari loginUserService
+ * ditukar dengan sesi jika kode TOTP atau kode cadangan benar.
+ */
+export const completeTwoFactorLoginService = async (
+  data: TwoFactorLoginInput,
+  client: SessionClientInfo
+) => {
+  const { twoFactorToken, code } = data;
+
+  if (!twoFactorToken || !code) {
+    throw new Error("Token dan kode wajib diisi");
+  }
+
+  let payload: any;
+  try {
+    payload = verifyJwt(twoFactorToken);
+  } catch (error) {
+    throw new Error("Token 2FA tidak valid atau sudah kedaluwarsa");
+  }
+  if (payload.type !== "2fa_pending") {
+    throw new Error("Token 2FA tidak valid atau sudah kedaluwarsa");
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: payload.id } });
+  if (!user || !user.totpEnabledAt) {
+    throw new Error("Token 2FA tidak valid atau sudah kedaluwarsa");
+  }
+  if (!user.isActive) {
+    throw new Error("Akun ditangguhkan");
+  }
+
+  let valid: boolean;
+  try {
+    valid = await TwoFactorService.verifyCode(user.id, code);
+  } catch (error: any) {
+    if (error.message === "Too many attempts") {
+      throw new Error("Terlalu banyak percobaan, coba lagi nanti");
+    }
+    throw error;
+  }
+  if (!valid) {
+    throw new Error("Kode autentikasi salah");
+  }
+
+  return startSession(user, client);
 };
 
 export const logoutUserService = async (refreshToken: string) => {
-  return prisma.refreshToken.deleteMany({ where: { token: refreshToken } });
+  return RefreshTokenService.revoke(refreshToken);
 };
 
+/**
+ * Menukar refresh token dengan access token dan refresh token baru.
+ */
 export const refreshAccessTokenService = async (token: string) => {
-  const storedToken = await prisma.refreshToken.findFirst({
-    where: {
-      token,
-      expiresAt: {
-        gt: new Date(),
-      },
-    },
-  });
-  
-
-  if (!storedToken) {
-    throw new Error("Refresh token tidak valid atau sudah kedaluwarsa");
-  }
+  const rotated = await RefreshTokenService.rotate(token);
 
-  const user = await prisma.user.findUnique({ where: { id: storedToken.userId } });
+  const user = await prisma.user.findUnique({ where: { id: rotated.userId } });
   if (!user) {
     throw new Error("User tidak ditemukan");
   }
+  if (!user.isActive) {
+    throw new Error("Akun ditangguhkan");
+  }
 
-  const newToken = signJwt({ id: user.id, username: user.username, type: "login" }, "15m");
-  return { token: newToken };
+  return {
+    token: signAccessToken(user, rotated.familyId),
+    refreshToken: rotated.refreshToken,
+    refreshTokenExpiresIn: rotated.refreshTokenExpiresIn,
+  };
 };
 
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Mengirim link reset password. Respons selalu sama, baik email terdaftar
+ * maupun tidak, agar endpoint ini tidak bisa dipakai untuk mengecek email.
+ * Yang disimpan hanya hash token; token asli hanya ada di dalam email.
+ */
 export const forgotPasswordService = async (data: ForgotPasswordInput) => {
   const { email } = data;
 
@@ -125,25 +227,40 @@ export const forgotPasswordService = async (data: ForgotPasswordInput) => {
     throw new Error("Email wajib diisi");
   }
 
-  const user = await prisma.user.findUnique({ where: { email } });
-
-  if (!user) {
-    throw new Error("Email tidak terdaftar");
-  }
+  const response = {
+    message: "Jika email terdaftar, link untuk reset password telah dikirim",
+  };
 
-  const resetToken = signJwt({ id: user.id, email: user.email, type: "reset_password" }, "1h");
-  const resetTokenExpiry = new Date(Date.now() + 3600000);
+  const user = await prisma.user.findUnique({ where: { email } });
+  if (!user) return response;
 
+  const resetToken = generateToken();
   await prisma.user.update({
     where: { id: user.id },
-    data: { resetToken, resetTokenExpiry },
+    data: {
+      resetToken: hashToken(resetToken),
+      resetTokenExpiry: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+    },
   });
 
-  return {
-    message: "Link untuk reset password telah dikirim",
-    resetToken,
-    resetLink: `http://localhost:3000/reset-password?token=${resetToken}`,
-  };
+  // Tidak ditunggu agar waktu respons tidak membedakan email terdaftar
+  getMailer()
+    .send({
+      to: user.email,
+      subject: "Reset password",
+      text: [
+        `Halo ${user.username},`,
+        "",
+        "Buka link berikut untuk membuat password baru:",
+        frontendLink("/reset-password", { token: resetToken }),
+        "",
+        "Link ini berlaku selama 1 jam dan hanya bisa dipakai sekali.",
+        "Abaikan email ini jika Anda tidak meminta reset password.",
+      ].join("\n"),
+    })
+    .catch((error) => console.error("Error sending reset email:", error));
+
+  return response;
 };
 
 export const resetPasswordService = async (data: ResetPasswordInput) => {
@@ -159,33 +276,34 @@ export const resetPasswordService = async (data: ResetPasswordInput) => {
     throw new Error("Password minimal 6 karakter");
   }
 
-  try {
-    const decoded = verifyJwt(token) as any;
-
-    if (decoded.type !== "reset_password") {
-      throw new Error("Token tidak valid untuk reset password");
-    }
+  const passwordHash = await bcrypt.hash(password, 10);
+  const tokenWhere = {
+    resetToken: hashToken(token),
+    resetTokenExpiry: { gt: new Date() },
+  };
 
-    const user = await prisma.user.findFirst({
-      where: { id: decoded.id, resetToken: token, resetTokenExpiry: { gt: new Date() } },
+  // Token dihapus dalam update yang sama sehingga hanya bisa dipakai sekali,
+  // dan sesi lama diputus karena password sudah diganti
+  const reset = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findFirst({
+      where: tokenWhere,
+      select: { id: true },
     });
+    if (!user) return false;
 
-    if (!user) {
-      throw new Error("Token reset password tidak valid atau sudah kedaluwarsa");
-    }
-
-    const passwordHash = await bcrypt.hash(password, 10);
-
-    await prisma.user.update({
-      where: { id: user.id },
+    const result = await tx.user.updateMany({
+      where: { id: user.id, ...tokenWhere },
       data: { passwordHash, resetToken: null, resetTokenExpiry: null },
     });
+    if (result.count === 0) return false;
 
-    return { message: "Password berhasil direset" };
-  } catch (error: any) {
-    if (error.name === "JsonWebTokenError" || error.name === "TokenExpiredError") {
-      throw new Error("Token tidak valid atau sudah kedaluwarsa");
-    }
-    throw error;
+    await SessionService.revokeAll(tx, user.id);
+    return true;
+  });
+
+  if (!reset) {
+    throw new Error("Token reset password tidak valid atau sudah kedaluwarsa");
   }
-};
\ No newline at end of file
+
+  return { message: "Password berhasil direset" };
+};
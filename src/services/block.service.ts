@@ -0,0 +1,162 @@
+// block.service.ts
+import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
+import { PaginationQuery } from "../model/paging";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { FollowService } from "./follow.service";
+
+const relatedUserSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+};
+
+/**
+ * Klausa where untuk user yang tidak memblokir dan tidak diblokir viewer.
+ */
+export const notBlockedUserWhere = (
+  viewerId?: number
+): Prisma.UserWhereInput =>
+  viewerId
+    ? {
+        blocks: { none: { blockedId: viewerId } },
+        blockedBy: { none: { userId: viewerId } },
+      }
+    : {};
+
+export class BlockService {
+  /**
+   * Memblokir user. Follow dan permintaan follow di kedua arah ikut dihapus
+   * dalam transaksi yang sama agar counter tetap konsisten.
+   */
+  static async block(userId: number, targetId: number) {
+    if (userId === targetId) throw new Error("Cannot block yourself");
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetId },
+      select: { id: true },
+    });
+    if (!target) throw new Error("User not found");
+
+    await prisma.$transaction(async (tx) => {
+      await tx.block.upsert({
+        where: { userId_blockedId: { userId, blockedId: targetId } },
+        create: { userId, blockedId: targetId },
+        update: {},
+      });
+      await FollowService.removeFollow(tx, userId, targetId);
+      await FollowService.removeFollow(tx, targetId, userId);
+    });
+  }
+
+  static async unblock(userId: number, targetId: number) {
+    const result = await prisma.block.deleteMany({
+      where: { userId, blockedId: targetId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Mute tidak memberi tahu dan tidak memengaruhi akun yang di-mute.
+   */
+  static async mute(userId: number, targetId: number) {
+    if (userId === targetId) throw new Error("Cannot mute yourself");
+
+    const target = await prisma.user.findUnique({
+      where: { id: targetId },
+      select: { id: true },
+    });
+    if (!target) throw new Error("User not found");
+
+    await prisma.mute.upsert({
+      where: { userId_mutedId: { userId, mutedId: targetId } },
+      create: { userId, mutedId: targetId },
+      update: {},
+    });
+  }
+
+  static async unmute(userId: number, targetId: number) {
+    const result = await prisma.mute.deleteMany({
+      where: { userId, mutedId: targetId },
+    });
+    return result.count > 0;
+  }
+
+  static async getBlocks(userId: number, query: PaginationQuery) {
+    const limit = query.limit ?? 20;
+    const blocks = await prisma.block.findMany({
+      where: { userId, ...createdAtCursorWhere(query.cursor) },
+      include: { blocked: { select: relatedUserSelect } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      blocks,
+      { ...query, limit },
+      createdAtCursor,
+      (block) => ({
+        ...block.blocked,
+        blockedAt: block.createdAt.toISOString(),
+      })
+    );
+  }
+
+  static async getMutes(userId: number, query: PaginationQuery) {
+    const limit = query.limit ?? 20;
+    const mutes = await prisma.mute.findMany({
+      where: { userId, ...createdAtCursorWhere(query.cursor) },
+      include: { muted: { select: relatedUserSelect } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      mutes,
+      { ...query, limit },
+      createdAtCursor,
+      (mute) => ({
+        ...mute.muted,
+        mutedAt: mute.createdAt.toISOString(),
+      })
+    );
+  }
+
+  /**
+   * True jika salah satu dari kedua user memblokir yang lain.
+   */
+  static async isBlockedBetween(userId: number, otherId: number) {
+    const block = await prisma.block.findFirst({
+      where: {
+        OR: [
+          { userId, blockedId: otherId },
+          { userId: otherId, blockedId: userId },
+        ],
+      },
+      select: { id: true },
+    });
+    return !!block;
+  }
+
+  /**
+   * True jika notifikasi dari actor tidak boleh sampai ke penerima:
+   * ada blokir di salah satu arah atau penerima me-mute actor.
+   */
+  static async isSilenced(recipientId: number, actorId: number) {
+    const [blocked, mute] = await Promise.all([
+      BlockService.isBlockedBetween(recipientId, actorId),
+      prisma.mute.findUnique({
+        where: { userId_mutedId: { userId: recipientId, mutedId: actorId } },
+        select: { id: true },
+      }),
+    ]);
+    return blocked || !!mute;
+  }
+}
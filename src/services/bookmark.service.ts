@@ -0,0 +1,72 @@
+// bookmark.service.ts
+import { prisma } from "../application/database";
+import { PaginationQuery } from "../model/paging";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import {
+  findVisiblePost,
+  getPostInclude,
+  hideUnavailableQuotes,
+  transformPost,
+  visiblePostWhere,
+} from "./post.service";
+
+export class BookmarkService {
+  /**
+   * Menyimpan postingan ke bookmark. Tidak melakukan apa-apa jika sudah ada.
+   */
+  static async addBookmark(userId: number, postId: number) {
+    const post = await findVisiblePost(postId, userId);
+    if (!post) throw new Error("Post not found");
+
+    await prisma.bookmark.upsert({
+      where: { userId_postId: { userId, postId } },
+      create: { userId, postId },
+      update: {},
+    });
+  }
+
+  static async removeBookmark(userId: number, postId: number) {
+    const result = await prisma.bookmark.deleteMany({
+      where: { userId, postId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Mengambil bookmark milik user, dari yang terakhir disimpan.
+   */
+  static async getBookmarks(userId: number, query: PaginationQuery) {
+    const limit = query.limit ?? 20;
+    const bookmarks = await prisma.bookmark.findMany({
+      where: {
+        userId,
+        post: { isDeleted: false, AND: [visiblePostWhere(userId)] },
+        ...createdAtCursorWhere(query.cursor),
+      },
+      include: { post: { include: getPostInclude(userId) } },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    const posts = await hideUnavailableQuotes(
+      bookmarks.map((bookmark) => bookmark.post),
+      userId
+    );
+
+    return toPaginatedResponse(
+      bookmarks.map((bookmark, index) => ({ ...bookmark, post: posts[index] })),
+      { ...query, limit },
+      createdAtCursor,
+      (bookmark) => ({
+        ...transformPost(bookmark.post),
+        bookmarkedAt: bookmark.createdAt.toISOString(),
+      })
+    );
+  }
+}
@@ -0,0 +1,272 @@
+// draft.service.ts
+import { prisma } from "../application/database";
+import { PostDraft } from "../generated/prisma";
+import {
+  DraftPayload,
+  DraftResponse,
+  PostVisibility,
+} from "../model/post.types";
+import { PaginationQuery } from "../model/paging";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { MediaService, mediaSelect } from "./media.service";
+import { createPost } from "./post.service";
+
+// Klaim publisher yang lebih lama dari ini dianggap gagal (instance mati)
+// sehingga draft boleh diklaim ulang.
+const PUBLISH_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Setelah sekian kali gagal, postingan terjadwal dikembalikan menjadi draft
+// biasa agar tidak dicoba terus-menerus
+const MAX_PUBLISH_ATTEMPTS = 5;
+
+// Kegagalan yang tidak akan hilang jika dicoba lagi
+const PERMANENT_PUBLISH_ERRORS = [
+  "Author inactive",
+  "Invalid media",
+  "Too many media attachments",
+];
+
+const draftInclude = {
+  media: {
+    select: mediaSelect,
+    orderBy: { position: "asc" as const },
+  },
+};
+
+const transformDraft = (draft: any): DraftResponse => ({
+  id: draft.id,
+  content: draft.content,
+  visibility: draft.visibility,
+  scheduledAt: draft.scheduledAt?.toISOString() ?? null,
+  publishError: draft.publishError,
+  createdAt: draft.createdAt.toISOString(),
+  updatedAt: draft.updatedAt.toISOString(),
+  media: draft.media,
+});
+
+// Draft yang belum diklaim, atau klaimnya sudah kedaluwarsa
+const unclaimedWhere = () => ({
+  OR: [
+    { publishingAt: null },
+    { publishingAt: { lt: new Date(Date.now() - PUBLISH_CLAIM_TIMEOUT_MS) } },
+  ],
+});
+
+export class DraftService {
+  static async createDraft(userId: number, data: DraftPayload) {
+    const draft = await prisma.$transaction(async (tx) => {
+      const created = await tx.postDraft.create({
+        data: {
+          userId,
+          content: data.content || "",
+          visibility: data.visibility ?? "public",
+          scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
+        },
+      });
+
+      if (data.mediaIds?.length) {
+        await MediaService.attachToDraft(tx, userId, created.id, data.mediaIds);
+      }
+
+      return tx.postDraft.findUniqueOrThrow({
+        where: { id: created.id },
+        include: draftInclude,
+      });
+    });
+
+    return transformDraft(draft);
+  }
+
+  /**
+   * Mengambil draft (scheduled = false) atau postingan terjadwal
+   * (scheduled = true) milik user.
+   */
+  static async getDrafts(
+    userId: number,
+    scheduled: boolean,
+    query: PaginationQuery
+  ) {
+    const limit = query.limit ?? 20;
+    const drafts = await prisma.postDraft.findMany({
+      where: {
+        userId,
+        scheduledAt: scheduled ? { not: null } : null,
+        publishingAt: null,
+        ...createdAtCursorWhere(query.cursor),
+      },
+      include: draftInclude,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      drafts,
+      { ...query, limit },
+      createdAtCursor,
+      transformDraft
+    );
+  }
+
+  static async getDraft(userId: number, draftId: number) {
+    const draft = await prisma.postDraft.findFirst({
+      where: { id: draftId, userId, publishingAt: null },
+      include: draftInclude,
+    });
+    return draft ? transformDraft(draft) : null;
+  }
+
+  /**
+   * Mengedit draft atau postingan terjadwal. mediaIds mengganti seluruh
+   * lampiran; scheduledAt null mengubah postingan terjadwal menjadi draft.
+   */
+  static async updateDraft(userId: number, draftId: number, data: DraftPayload) {
+    const draft = await prisma.$transaction(async (tx) => {
+      const result = await tx.postDraft.updateMany({
+        where: { id: draftId, userId, publishingAt: null },
+        data: {
+          content: data.content,
+          visibility: data.visibility,
+          scheduledAt:
+            data.scheduledAt === undefined
+              ? undefined
+              : data.scheduledAt
+              ? new Date(data.scheduledAt)
+              : null,
+          // Draft yang diedit boleh dicoba diterbitkan lagi
+          publishAttempts: 0,
+          publishError: null,
+        },
+      });
+      if (result.count === 0) return null;
+
+      if (data.mediaIds) {
+        await MediaService.attachToDraft(tx, userId, draftId, data.mediaIds);
+      }
+
+      return tx.postDraft.findUniqueOrThrow({
+        where: { id: draftId },
+        include: draftInclude,
+      });
+    });
+
+    return draft ? transformDraft(draft) : null;
+  }
+
+  /**
+   * Menghapus draft atau membatalkan postingan terjadwal. Media yang
+   * terlampir kembali menjadi upload lepas dan dibersihkan oleh job.
+   */
+  static async deleteDraft(userId: number, draftId: number) {
+    const result = await prisma.postDraft.deleteMany({
+      where: { id: draftId, userId, publishingAt: null },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Menerbitkan draft milik user sekarang juga.
+   */
+  static async publishDraft(userId: number, draftId: number) {
+    const claimed = await prisma.postDraft.updateMany({
+      where: { id: draftId, userId, publishingAt: null },
+      data: { publishingAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    return DraftService.publishClaimed(draftId);
+  }
+
+  /**
+   * Menerbitkan postingan terjadwal yang sudah jatuh tempo. Setiap draft
+   * diklaim lewat publishingAt dengan update bersyarat, sehingga hanya satu
+   * instance yang menerbitkannya walaupun job berjalan di beberapa server.
+   */
+  static async publishDuePosts(batchSize = 50) {
+    const due = await prisma.postDraft.findMany({
+      where: { scheduledAt: { lte: new Date() }, ...unclaimedWhere() },
+      select: { id: true },
+      orderBy: { scheduledAt: "asc" },
+      take: batchSize,
+    });
+
+    let published = 0;
+    for (const { id } of due) {
+      const claimed = await prisma.postDraft.updateMany({
+        where: { id, scheduledAt: { lte: new Date() }, ...unclaimedWhere() },
+        data: { publishingAt: new Date() },
+      });
+      if (claimed.count === 0) continue;
+
+      try {
+        await DraftService.publishClaimed(id);
+        published++;
+      } catch (error) {
+        console.error(`Failed to publish scheduled post ${id}:`, error);
+      }
+    }
+    return published;
+  }
+
+  /**
+   * Membuat Post dari draft yang sudah diklaim. Draft dihapus di transaksi
+   * yang sama dengan pembuatan Post, dan hanya jika klaimnya masih milik
+   * pemanggil ini, sehingga draft tidak pernah terbit dua kali.
+   */
+  private static async publishClaimed(draftId: number) {
+    const draft = await prisma.postDraft.findUniqueOrThrow({
+      where: { id: draftId },
+      include: {
+        media: { select: { id: true }, orderBy: { position: "asc" } },
+        user: { select: { isActive: true } },
+      },
+    });
+
+    try {
+      if (!draft.user.isActive) throw new Error("Author inactive");
+
+      return await createPost(
+        draft.userId,
+        {
+          content: draft.content,
+          visibility: draft.visibility as PostVisibility,
+          mediaIds: draft.media.map((media) => media.id),
+        },
+        async (tx) => {
+          const deleted = await tx.postDraft.deleteMany({
+            where: { id: draftId, publishingAt: draft.publishingAt },
+          });
+          if (deleted.count === 0) throw new Error("Draft claim lost");
+        }
+      );
+    } catch (error: any) {
+      await DraftService.recordPublishFailure(draft, error.message);
+      throw error;
+    }
+  }
+
+  // Melepaskan klaim agar bisa dicoba lagi, atau menghentikan percobaan
+  // untuk kegagalan permanen
+  private static async recordPublishFailure(draft: PostDraft, reason: string) {
+    const publishAttempts = draft.publishAttempts + 1;
+    const giveUp =
+      PERMANENT_PUBLISH_ERRORS.includes(reason) ||
+      publishAttempts >= MAX_PUBLISH_ATTEMPTS;
+
+    // Tidak mengubah apa pun jika draft sudah diklaim ulang atau terbit
+    await prisma.postDraft.updateMany({
+      where: { id: draft.id, publishingAt: draft.publishingAt },
+      data: {
+        publishingAt: null,
+        publishAttempts,
+        publishError: giveUp ? reason : null,
+        scheduledAt: giveUp ? null : undefined,
+      },
+    });
+  }
+}
@@ -0,0 +1,114 @@
+// email-verification.service.ts
+import { prisma } from "../application/database";
+import { frontendLink, getMailer } from "../application/mailer";
+import { signJwt, verifyJwt } from "../utils/jwt";
+
+const VERIFICATION_TOKEN_TTL = "24h";
+
+// Jeda minimal antar email verifikasi untuk satu akun
+export const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+export class EmailVerificationService {
+  /**
+   * Mengirim link verifikasi ke email yang belum diverifikasi: email baru
+   * yang sedang menunggu (pendingEmail), atau email akun jika belum pernah
+   * diverifikasi. Pengiriman dibatasi satu kali per cooldown.
+   */
+  static async sendVerification(userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        pendingEmail: true,
+        isVerified: true,
+      },
+    });
+    if (!user) throw new Error("User not found");
+
+    const email = user.pendingEmail ?? (user.isVerified ? null : user.email);
+    if (!email) throw new Error("Email already verified");
+
+    // Klaim slot kirim secara atomik agar request bersamaan tidak lolos
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [
+          { verificationSentAt: null },
+          {
+            verificationSentAt: {
+              lt: new Date(Date.now() - VERIFICATION_RESEND_COOLDOWN_MS),
+            },
+          },
+        ],
+      },
+      data: { verificationSentAt: new Date() },
+    });
+    if (claimed.count === 0) throw new Error("Too many requests");
+
+    const token = signJwt(
+      { id: user.id, email, type: "verify_email" },
+      VERIFICATION_TOKEN_TTL
+    );
+    const link = frontendLink("/verify-email", { token });
+
+    await getMailer().send({
+      to: email,
+      subject: "Verifikasi email Anda",
+      text: [
+        `Halo ${user.username},`,
+        "",
+        "Buka link berikut untuk memverifikasi email Anda:",
+        link,
+        "",
+        "Link ini berlaku selama 24 jam. Abaikan email ini jika Anda tidak",
+        "merasa mendaftar atau mengganti email.",
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * Memverifikasi token dari link email. Token untuk pendingEmail sekaligus
+   * mengganti email akun. Token hanya berlaku untuk alamat yang tertulis di
+   * dalamnya, sehingga token lama otomatis tidak berlaku setelah user
+   * mengganti email lagi.
+   */
+  static async verify(token: string) {
+    let payload: any;
+    try {
+      payload = verifyJwt(token);
+    } catch (error) {
+      throw new Error("Invalid token");
+    }
+    if (payload.type !== "verify_email") throw new Error("Invalid token");
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.id },
+      select: { id: true, email: true, pendingEmail: true },
+    });
+    if (!user) throw new Error("Invalid token");
+
+    if (user.pendingEmail === payload.email) {
+      try {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { email: payload.email, pendingEmail: null, isVerified: true },
+        });
+      } catch (error: any) {
+        // Email sudah dipakai akun lain sejak perubahan diminta
+        if (error.code === "P2002") throw new Error("Email already in use");
+        throw error;
+      }
+    } else if (user.email === payload.email) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { isVerified: true },
+      });
+    } else {
+      throw new Error("Invalid token");
+    }
+
+    return { email: payload.email as string };
+  }
+}
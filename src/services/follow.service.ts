@@ -1,52 +1,230 @@
 import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
+import { PaginationQuery } from "../model/paging";
+import { FollowStatus } from "../model/user.types";
+import { BlockService } from "./block.service";
+import { NotificationService } from "./notification.service";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+
+const requestUserSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+};
 
 export class FollowService {
-  static async follow(userId: number, targetId: number) {
+  /**
+   * Follow langsung untuk akun publik. Untuk akun private, dibuat
+   * permintaan follow yang harus disetujui pemilik akun.
+   */
+  static async follow(userId: number, targetId: number): Promise<FollowStatus> {
     if (userId === targetId) throw new Error("Cannot follow yourself");
 
-    await prisma.follower.create({
-      data: {
-        userId,
-        followingId: targetId,
-      },
-    });
-
-    // Opsional: Tambah count
-    await prisma.user.update({
+    const target = await prisma.user.findUnique({
       where: { id: targetId },
-      data: { followerCount: { increment: 1 } },
+      select: { isPrivate: true },
     });
+    if (!target) throw new Error("User not found");
+    if (await BlockService.isBlockedBetween(userId, targetId)) {
+      throw new Error("Blocked");
+    }
 
-    await prisma.user.update({
-      where: { id: userId },
-      data: { followingCount: { increment: 1 } },
+    const status = await FollowService.checkFollowStatus(userId, targetId);
+    if (status !== "none") return status;
+
+    if (target.isPrivate) {
+      await prisma.followRequest.create({
+        data: { userId, followingId: targetId },
+      });
+      await NotificationService.notify({
+        userId: targetId,
+        actorId: userId,
+        type: "follow_request",
+      });
+      return "pending";
+    }
+
+    await FollowService.createFollow(userId, targetId);
+    await NotificationService.notify({
+      userId: targetId,
+      actorId: userId,
+      type: "follow",
     });
+    return "following";
   }
 
-  static async unfollow(userId: number, targetId: number) {
-    await prisma.follower.delete({
-      where: {
-        userId_followingId: {
+  // Membuat relasi follow dan memperbarui counter dalam satu transaksi
+  private static async createFollow(userId: number, targetId: number) {
+    await prisma.$transaction([
+      prisma.follower.create({
+        data: {
           userId,
           followingId: targetId,
         },
-      },
+      }),
+      prisma.user.update({
+        where: { id: targetId },
+        data: { followerCount: { increment: 1 } },
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { followingCount: { increment: 1 } },
+      }),
+    ]);
+  }
+
+  /**
+   * Unfollow, sekaligus membatalkan permintaan follow yang masih pending.
+   */
+  static async unfollow(userId: number, targetId: number) {
+    await prisma.$transaction((tx) =>
+      FollowService.removeFollow(tx, userId, targetId)
+    );
+  }
+
+  /**
+   * Menghapus follow (dan permintaan follow) userId -> targetId beserta
+   * counter-nya di dalam transaksi yang diberikan.
+   */
+  static async removeFollow(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    targetId: number
+  ) {
+    await tx.followRequest.deleteMany({
+      where: { userId, followingId: targetId },
+    });
+
+    const deleted = await tx.follower.deleteMany({
+      where: { userId, followingId: targetId },
     });
+    if (deleted.count === 0) return;
 
-    await prisma.user.update({
+    await tx.user.update({
       where: { id: targetId },
       data: { followerCount: { decrement: 1 } },
     });
-
-    await prisma.user.update({
+    await tx.user.update({
       where: { id: userId },
       data: { followingCount: { decrement: 1 } },
     });
   }
 
-  static async getFollowers(userId: number) {
-    return await prisma.follower.findMany({
-      where: { followingId: userId },
+  /**
+   * Akun publik bisa dilihat semua orang, akun private hanya oleh pemiliknya
+   * dan follower yang sudah disetujui.
+   */
+  static async assertCanViewAccount(ownerId: number, viewerId?: number) {
+    const owner = await prisma.user.findUnique({
+      where: { id: ownerId },
+      select: { isPrivate: true },
+    });
+    if (!owner) throw new Error("User not found");
+    if (viewerId && (await BlockService.isBlockedBetween(ownerId, viewerId))) {
+      throw new Error("Blocked");
+    }
+    if (!owner.isPrivate || ownerId === viewerId) return;
+
+    const status = viewerId
+      ? await FollowService.checkFollowStatus(viewerId, ownerId)
+      : "none";
+    if (status !== "following") throw new Error("Account is private");
+  }
+
+  /**
+   * Menyetujui permintaan follow yang masuk ke akun milik ownerId.
+   */
+  static async approveRequest(ownerId: number, requestId: number) {
+    const request = await prisma.followRequest.findFirst({
+      where: { id: requestId, followingId: ownerId },
+    });
+    if (!request) return false;
+
+    // Hapus dulu agar persetujuan ganda tidak membuat follow dua kali
+    const claimed = await prisma.followRequest.deleteMany({
+      where: { id: request.id },
+    });
+    if (claimed.count === 0) return false;
+
+    await FollowService.createFollow(request.userId, ownerId);
+    await NotificationService.notify({
+      userId: request.userId,
+      actorId: ownerId,
+      type: "follow_accepted",
+    });
+    return true;
+  }
+
+  static async rejectRequest(ownerId: number, requestId: number) {
+    const result = await prisma.followRequest.deleteMany({
+      where: { id: requestId, followingId: ownerId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Menyetujui semua permintaan yang pending, dipakai saat akun private
+   * diubah menjadi publik.
+   */
+  static async approveAllRequests(ownerId: number) {
+    const requests = await prisma.followRequest.findMany({
+      where: { followingId: ownerId },
+      select: { id: true },
+    });
+    for (const request of requests) {
+      await FollowService.approveRequest(ownerId, request.id);
+    }
+  }
+
+  /**
+   * Permintaan follow yang masuk (incoming) atau yang dikirim (outgoing).
+   */
+  static async getFollowRequests(
+    userId: number,
+    direction: "incoming" | "outgoing",
+    query: PaginationQuery
+  ) {
+    const incoming = direction === "incoming";
+    const requests = await prisma.followRequest.findMany({
+      where: {
+        ...(incoming ? { followingId: userId } : { userId }),
+        ...createdAtCursorWhere(query.cursor),
+      },
+      include: {
+        requester: incoming && { select: requestUserSelect },
+        target: !incoming && { select: requestUserSelect },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: (query.limit ?? 20) + 1,
+      skip: getSkip(query),
+    });
+
+    return toPaginatedResponse(
+      requests,
+      { ...query, limit: query.limit ?? 20 },
+      createdAtCursor,
+      (request) => ({
+        id: request.id,
+        user: incoming ? request.requester : request.target,
+        createdAt: request.createdAt.toISOString(),
+      })
+    );
+  }
+
+  static async getFollowers(
+    userId: number,
+    query: PaginationQuery,
+    viewerId?: number
+  ) {
+    await FollowService.assertCanViewAccount(userId, viewerId);
+
+    const followers = await prisma.follower.findMany({
+      where: { followingId: userId, ...createdAtCursorWhere(query.cursor) },
       include: {
         follower: {
           select: {
@@ -56,12 +234,28 @@ export class FollowService {
           },
         },
       },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: (query.limit ?? 20) + 1,
+      skip: getSkip(query),
     });
+
+    return toPaginatedResponse(
+      followers,
+      { ...query, limit: query.limit ?? 20 },
+      createdAtCursor,
+      (f) => f.follower
+    );
   }
 
-  static async getFollowing(userId: number) {
-    return await prisma.follower.findMany({
-      where: { userId },
+  static async getFollowing(
+    userId: number,
+    query: PaginationQuery,
+    viewerId?: number
+  ) {
+    await FollowService.assertCanViewAccount(userId, viewerId);
+
+    const following = await prisma.follower.findMany({
+      where: { userId, ...createdAtCursorWhere(query.cursor) },
       include: {
         following: {
           select: {
@@ -71,22 +265,46 @@ export class FollowService {
           },
         },
       },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: (query.limit ?? 20) + 1,
+      skip: getSkip(query),
     });
+
+    return toPaginatedResponse(
+      following,
+      { ...query, limit: query.limit ?? 20 },
+      createdAtCursor,
+      (f) => f.following
+    );
   }
 
-  static async checkFollowStatus(userId: number, targetId: number) {
-    const follow = await prisma.follower.findUnique({
-      where: {
-        userId_followingId: {
-          userId,
-          followingId: targetId,
+  static async checkFollowStatus(
+    userId: number,
+    targetId: number
+  ): Promise<FollowStatus> {
+    const [follow, request] = await Promise.all([
+      prisma.follower.findUnique({
+        where: {
+          userId_followingId: {
+            userId,
+            followingId: targetId,
+          },
         },
-      },
-    });
+      }),
+      prisma.followRequest.findUnique({
+        where: {
+          userId_followingId: {
+            userId,
+            followingId: targetId,
+          },
+        },
+      }),
+    ]);
 
-    return !!follow;
+    if (follow) return "following";
+    return request ? "pending" : "none";
   }
-  
+
   static async getTargetUserProfile(userId: number) {
     return prisma.user.findUnique({
       where: { id: userId },
@@ -98,6 +316,7 @@ export class FollowService {
         followerCount: true,
         followingCount: true,
         isVerified: true,
+        isPrivate: true,
       },
     });
   }
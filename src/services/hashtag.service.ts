@@ -0,0 +1,169 @@
+// hashtag.service.ts
+import { prisma } from "../application/database";
+import { PaginationQuery } from "../model/paging";
+import { extractHashtags, normalizeHashtag } from "../utils/hashtag";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  decodeCursor,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import {
+  getPostInclude,
+  hideUnavailableQuotes,
+  notMutedWhere,
+  transformPost,
+  visiblePostWhere,
+} from "./post.service";
+
+type TopCursor = { likeCount: number; id: number };
+
+// Pemakaian minimal dalam jendela waktu agar sebuah hashtag bisa tren
+const MIN_TRENDING_USES = 2;
+
+// Melanjutkan urutan (likeCount desc, id desc) untuk sort "top".
+const topCursorWhere = (cursor?: string) => {
+  const payload = decodeCursor<TopCursor>(cursor, {
+    likeCount: "integer",
+    id: "integer",
+  });
+  if (!payload) return {};
+  return {
+    OR: [
+      { likeCount: { lt: payload.likeCount } },
+      { likeCount: payload.likeCount, id: { lt: payload.id } },
+    ],
+  };
+};
+
+export class HashtagService {
+  /**
+   * Menyamakan hashtag yang tersimpan dengan isi postingan terbaru.
+   * Dipanggil setiap kali postingan dibuat atau diedit.
+   */
+  static async syncPostHashtags(postId: number, content: string) {
+    const tags = extractHashtags(content);
+
+    await prisma.$transaction(async (tx) => {
+      const hashtagIds: number[] = [];
+      for (const tag of tags) {
+        const hashtag = await tx.hashtag.upsert({
+          where: { tag },
+          create: { tag },
+          update: {},
+        });
+        hashtagIds.push(hashtag.id);
+      }
+
+      await tx.postHashtag.deleteMany({
+        where: { postId, hashtagId: { notIn: hashtagIds } },
+      });
+      await tx.postHashtag.createMany({
+        data: hashtagIds.map((hashtagId) => ({ postId, hashtagId })),
+        skipDuplicates: true,
+      });
+    });
+  }
+
+  /**
+   * Mengambil postingan dengan hashtag tertentu, terbaru atau terpopuler.
+   */
+  static async getPostsByHashtag(
+    tag: string,
+    sort: "latest" | "top",
+    query: PaginationQuery,
+    currentUserId?: number
+  ) {
+    const limit = query.limit ?? 20;
+    const posts = await prisma.post.findMany({
+      where: {
+        isDeleted: false,
+        hashtags: { some: { hashtag: { tag: normalizeHashtag(tag) } } },
+        AND: [visiblePostWhere(currentUserId), notMutedWhere(currentUserId)],
+        ...(sort === "top"
+          ? topCursorWhere(query.cursor)
+          : createdAtCursorWhere(query.cursor)),
+      },
+      orderBy:
+        sort === "top"
+          ? [{ likeCount: "desc" }, { id: "desc" }]
+          : [{ createdAt: "desc" }, { id: "desc" }],
+      include: getPostInclude(currentUserId),
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      await hideUnavailableQuotes(posts, currentUserId),
+      { ...query, limit },
+      sort === "top"
+        ? (post): TopCursor => ({ likeCount: post.likeCount, id: post.id })
+        : createdAtCursor,
+      transformPost
+    );
+  }
+
+  /**
+   * Hashtag yang sedang tren: hashtag yang pemakaiannya dalam jendela waktu
+   * terakhir naik dibanding jendela sebelumnya. Skor pertumbuhan dibagi akar
+   * pemakaian sebelumnya, sehingga lonjakan hashtag baru mengalahkan hashtag
+   * besar yang stabil, tanpa satu-dua postingan langsung menjadi tren.
+   * Hanya postingan publik yang terlihat oleh semua orang yang dihitung.
+   */
+  static async getTrendingHashtags(windowHours: number, limit: number) {
+    const now = Date.now();
+    const windowMs = windowHours * 60 * 60 * 1000;
+    const windowStart = new Date(now - windowMs);
+    const previousStart = new Date(now - 2 * windowMs);
+
+    const countUses = (from: Date, to: Date) =>
+      prisma.postHashtag.groupBy({
+        by: ["hashtagId"],
+        where: {
+          createdAt: { gte: from, lt: to },
+          post: { isDeleted: false, AND: [visiblePostWhere()] },
+        },
+        _count: { _all: true },
+      });
+
+    const [current, previous] = await Promise.all([
+      countUses(windowStart, new Date(now)),
+      countUses(previousStart, windowStart),
+    ]);
+
+    const previousUses = new Map(
+      previous.map((row) => [row.hashtagId, row._count._all])
+    );
+
+    const ranked = current
+      .filter((row) => row._count._all >= MIN_TRENDING_USES)
+      .map((row) => {
+        const uses = row._count._all;
+        const before = previousUses.get(row.hashtagId) ?? 0;
+        const growth = uses - before;
+        return {
+          hashtagId: row.hashtagId,
+          uses,
+          previousUses: before,
+          usesPerHour: uses / windowHours,
+          growth,
+          score: growth / Math.sqrt(before + 1),
+        };
+      })
+      .filter((row) => row.growth > 0)
+      .sort((a, b) => b.score - a.score || b.uses - a.uses)
+      .slice(0, limit);
+
+    const hashtags = await prisma.hashtag.findMany({
+      where: { id: { in: ranked.map((row) => row.hashtagId) } },
+      select: { id: true, tag: true },
+    });
+    const tagById = new Map(hashtags.map((h) => [h.id, h.tag]));
+
+    return ranked.map(({ hashtagId, ...stats }) => ({
+      tag: tagById.get(hashtagId),
+      ...stats,
+    }));
+  }
+}
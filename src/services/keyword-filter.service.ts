@@ -0,0 +1,264 @@
+// keyword-filter.service.ts
+import { prisma } from "../application/database";
+import {
+  FILTER_ACTIONS,
+  FilterAction,
+  FilterScope,
+  KeywordFilterPayload,
+  KeywordFilterResponse,
+} from "../model/filter.types";
+import { PaginatedResponse } from "../model/paging";
+import {
+  compileKeywordMatcher,
+  KeywordMatcher,
+  normalizeKeyword,
+} from "../utils/keyword-filter";
+
+export const MAX_FILTERS_PER_USER = 500;
+export const MAX_FILTER_KEYWORD_LENGTH = 100;
+
+// Matcher hasil kompilasi disimpan per user agar regex tidak dibangun ulang
+// di setiap request. Perubahan dari instance lain terlihat paling lambat
+// setelah TTL ini.
+const MATCHER_CACHE_TTL_MS = 60 * 1000;
+
+// Jumlah user yang matcher-nya disimpan. Jika penuh, user yang paling lama
+// tidak memakai cache dibuang lebih dulu (LRU).
+const MATCHER_CACHE_MAX_SIZE = 10000;
+
+// Matcher dipisah per action. Regex gabungan hanya mengembalikan satu
+// alternatif saat beberapa keyword tumpang tindih ("foobar" dan "bar"),
+// jadi keyword "hide" tidak boleh berbagi regex dengan keyword "warn".
+type ScopeMatcher = Partial<Record<FilterAction, KeywordMatcher>>;
+
+type CachedMatchers = {
+  validUntil: number;
+  scopes: Partial<Record<FilterScope, ScopeMatcher>>;
+};
+
+// Map menyimpan urutan penyisipan: entry pertama adalah yang paling lama
+// tidak dipakai karena setiap pemakaian memindahkannya ke akhir
+const matcherCache = new Map<number, CachedMatchers>();
+
+const getCachedMatchers = (userId: number, now: number) => {
+  const cached = matcherCache.get(userId);
+  if (!cached) return undefined;
+
+  matcherCache.delete(userId);
+  if (cached.validUntil <= now) return undefined;
+  matcherCache.set(userId, cached);
+  return cached;
+};
+
+const setCachedMatchers = (userId: number, cached: CachedMatchers) => {
+  matcherCache.delete(userId);
+  matcherCache.set(userId, cached);
+  while (matcherCache.size > MATCHER_CACHE_MAX_SIZE) {
+    const oldest = matcherCache.keys().next().value;
+    if (oldest === undefined) break;
+    matcherCache.delete(oldest);
+  }
+};
+
+export type FilterMark = {
+  filtered?: boolean;
+  filteredKeywords?: string[];
+};
+
+const transformFilter = (filter: any): KeywordFilterResponse => ({
+  id: filter.id,
+  keyword: filter.keyword,
+  wholeWord: filter.wholeWord,
+  scopes: filter.scopes,
+  action: filter.action,
+  expiresAt: filter.expiresAt?.toISOString() ?? null,
+  createdAt: filter.createdAt.toISOString(),
+});
+
+const activeFilterWhere = () => ({
+  OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+});
+
+/**
+ * Teks postingan yang dicocokkan: isi postingan dan postingan yang dikutip.
+ * Postingan milik viewer sendiri tidak pernah difilter.
+ */
+const postText = (viewerId: number) => (post: any) => {
+  if (post.user?.id === viewerId || post.userId === viewerId) return null;
+  return [post.content, post.quotedPost?.content].filter(Boolean).join("\n");
+};
+
+export class KeywordFilterService {
+  static async getFilters(userId: number) {
+    const filters = await prisma.keywordFilter.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    });
+    return filters.map(transformFilter);
+  }
+
+  static async createFilter(userId: number, data: KeywordFilterPayload) {
+    const keyword = normalizeKeyword(data.keyword);
+
+    const count = await prisma.keywordFilter.count({ where: { userId } });
+    if (count >= MAX_FILTERS_PER_USER) {
+      throw new Error("Filter limit reached");
+    }
+
+    try {
+      const filter = await prisma.keywordFilter.create({
+        data: {
+          userId,
+          keyword,
+          wholeWord: data.wholeWord ?? true,
+          scopes: data.scopes,
+          action: data.action ?? "hide",
+          expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+        },
+      });
+      matcherCache.delete(userId);
+      return transformFilter(filter);
+    } catch (error: any) {
+      if (error.code === "P2002") throw new Error("Filter already exists");
+      throw error;
+    }
+  }
+
+  /**
+   * Mengubah filter milik user. expiresAt null menghapus masa berlaku.
+   */
+  static async updateFilter(
+    userId: number,
+    filterId: number,
+    data: Partial<KeywordFilterPayload>
+  ) {
+    try {
+      const result = await prisma.keywordFilter.updateMany({
+        where: { id: filterId, userId },
+        data: {
+          keyword:
+            data.keyword !== undefined
+              ? normalizeKeyword(data.keyword)
+              : undefined,
+          wholeWord: data.wholeWord,
+          scopes: data.scopes,
+          action: data.action,
+          expiresAt:
+            data.expiresAt === undefined
+              ? undefined
+              : data.expiresAt && new Date(data.expiresAt),
+        },
+      });
+      if (result.count === 0) return null;
+    } catch (error: any) {
+      if (error.code === "P2002") throw new Error("Filter already exists");
+      throw error;
+    }
+
+    matcherCache.delete(userId);
+    const filter = await prisma.keywordFilter.findUniqueOrThrow({
+      where: { id: filterId },
+    });
+    return transformFilter(filter);
+  }
+
+  static async deleteFilter(userId: number, filterId: number) {
+    const result = await prisma.keywordFilter.deleteMany({
+      where: { id: filterId, userId },
+    });
+    matcherCache.delete(userId);
+    return result.count > 0;
+  }
+
+  /**
+   * Mengambil matcher untuk satu scope. Semua filter aktif pada scope itu
+   * digabung menjadi satu regex sehingga biaya pencocokan tidak bertambah
+   * banyak walaupun user memiliki ratusan filter.
+   */
+  private static async getMatcher(userId: number, scope: FilterScope) {
+    const now = Date.now();
+    let cached = getCachedMatchers(userId, now);
+
+    if (!cached) {
+      const filters = await prisma.keywordFilter.findMany({
+        where: { userId, ...activeFilterWhere() },
+        select: {
+          keyword: true,
+          wholeWord: true,
+          scopes: true,
+          action: true,
+          expiresAt: true,
+        },
+      });
+
+      // Cache harus kedaluwarsa bersamaan dengan filter pertama yang habis
+      let validUntil = now + MATCHER_CACHE_TTL_MS;
+      for (const filter of filters) {
+        if (filter.expiresAt && filter.expiresAt.getTime() < validUntil) {
+          validUntil = filter.expiresAt.getTime();
+        }
+      }
+
+      const scopes: CachedMatchers["scopes"] = {};
+      for (const filterScope of Array.from(
+        new Set(filters.flatMap((filter) => filter.scopes as FilterScope[]))
+      )) {
+        const scoped = filters.filter((filter) =>
+          filter.scopes.includes(filterScope)
+        );
+        const matchers: ScopeMatcher = {};
+        for (const action of FILTER_ACTIONS) {
+          const withAction = scoped.filter(
+            (filter) => filter.action === action
+          );
+          if (withAction.length) {
+            matchers[action] = compileKeywordMatcher(withAction);
+          }
+        }
+        scopes[filterScope] = matchers;
+      }
+
+      cached = { validUntil, scopes };
+      setCachedMatchers(userId, cached);
+    }
+
+    return cached.scopes[scope];
+  }
+
+  /**
+   * Menerapkan filter kata kunci pada satu halaman hasil. Item dengan
+   * filter "hide" dibuang, sedangkan filter "warn" hanya menandai item
+   * dengan `filtered` beserta kata kunci yang cocok. Filter "hide" selalu
+   * dicek lebih dulu sehingga action paling ketat yang menang walaupun
+   * keyword-nya tumpang tindih dengan keyword "warn". Cursor halaman tidak
+   * berubah sehingga halaman berikutnya tetap berurutan walaupun halaman
+   * ini menjadi lebih pendek.
+   */
+  static async applyToPage<T extends object>(
+    userId: number | undefined,
+    scope: FilterScope,
+    page: PaginatedResponse<T>,
+    getText?: (item: T) => string | null | undefined
+  ): Promise<PaginatedResponse<T & FilterMark>> {
+    if (!userId) return page;
+
+    const matcher = await this.getMatcher(userId, scope);
+    if (!matcher) return page;
+
+    const textOf = getText ?? postText(userId);
+    const data: (T & FilterMark)[] = [];
+    for (const item of page.data) {
+      const text = textOf(item);
+      if (text && matcher.hide && matcher.hide(text).length > 0) continue;
+
+      const keywords = text && matcher.warn ? matcher.warn(text) : [];
+      if (keywords.length === 0) {
+        data.push(item);
+        continue;
+      }
+      data.push({ ...item, filtered: true, filteredKeywords: keywords });
+    }
+
+    return { ...page, data };
+  }
+}
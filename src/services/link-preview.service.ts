@@ -0,0 +1,80 @@
+// link-preview.service.ts
+import { prisma } from "../application/database";
+import { getLinkPreviewFetcher } from "../application/link-preview";
+import { extractFirstUrl } from "../utils/link";
+
+// Metadata yang sudah di-cache dipakai ulang selama 24 jam
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const linkPreviewSelect = {
+  url: true,
+  title: true,
+  description: true,
+  imageUrl: true,
+  siteName: true,
+};
+
+export class LinkPreviewService {
+  /**
+   * Mengambil preview untuk URL dari cache, atau lewat fetcher jika cache
+   * belum ada atau sudah kedaluwarsa. Kegagalan fetch juga di-cache agar
+   * URL yang sama tidak terus di-fetch ulang.
+   */
+  static async getPreview(url: string) {
+    const cached = await prisma.linkPreview.findUnique({ where: { url } });
+    if (cached && Date.now() - cached.fetchedAt.getTime() < CACHE_TTL_MS) {
+      return cached;
+    }
+
+    let data = null;
+    try {
+      data = await getLinkPreviewFetcher().fetch(url);
+    } catch (error: any) {
+      console.warn(`Link preview fetch failed for ${url}:`, error.message);
+    }
+
+    const values = {
+      title: data?.title ?? null,
+      description: data?.description ?? null,
+      imageUrl: data?.imageUrl ?? null,
+      siteName: data?.siteName ?? null,
+      isValid: data !== null,
+      fetchedAt: new Date(),
+    };
+
+    return prisma.linkPreview.upsert({
+      where: { url },
+      create: { url, ...values },
+      update: values,
+    });
+  }
+
+  /**
+   * Menempelkan preview dari URL pertama di konten ke postingan.
+   * Kegagalan apa pun tidak boleh menggagalkan pembuatan postingan.
+   */
+  static async attachToPost(postId: number, content: string) {
+    const url = extractFirstUrl(content);
+    if (!url) return null;
+
+    try {
+      const preview = await LinkPreviewService.getPreview(url);
+      if (!preview.isValid) return null;
+
+      await prisma.post.update({
+        where: { id: postId },
+        data: { linkPreviewId: preview.id },
+      });
+      return {
+        url: preview.url,
+        title: preview.title,
+        description: preview.description,
+        imageUrl: preview.imageUrl,
+        siteName: preview.siteName,
+      };
+    } catch (error) {
+      console.error("Error attaching link preview:", error);
+      return null;
+    }
+  }
+}
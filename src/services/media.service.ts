@@ -0,0 +1,197 @@
+// media.service.ts
+import { randomUUID } from "node:crypto";
+import { prisma } from "../application/database";
+import { storage } from "../application/storage";
+import { Prisma } from "../generated/prisma";
+import {
+  ALLOWED_MEDIA_TYPES,
+  detectMimeType,
+  getImageDimensions,
+  MIME_SNIFF_BYTES,
+} from "../utils/media";
+
+export const MAX_MEDIA_PER_POST = 4;
+
+const MAX_IMAGE_BYTES = Number(
+  process.env.MEDIA_MAX_IMAGE_BYTES ?? 5 * 1024 * 1024
+);
+const MAX_VIDEO_BYTES = Number(
+  process.env.MEDIA_MAX_VIDEO_BYTES ?? 50 * 1024 * 1024
+);
+
+// Batas ukuran body request upload: file terbesar yang diizinkan ditambah
+// ruang untuk header multipart dan field lain
+export const MAX_UPLOAD_BODY_BYTES =
+  Math.max(MAX_IMAGE_BYTES, MAX_VIDEO_BYTES) + 64 * 1024;
+
+// Ukuran video dikirim client, jadi dibatasi ke rentang yang masuk akal
+const MAX_VIDEO_DIMENSION = 8192;
+
+const isValidDimension = (value: number) =>
+  Number.isInteger(value) && value >= 1 && value <= MAX_VIDEO_DIMENSION;
+
+// Upload yang tidak dilampirkan ke postingan dalam waktu ini akan dihapus
+const ORPHAN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const mediaSelect = {
+  id: true,
+  url: true,
+  mimeType: true,
+  width: true,
+  height: true,
+  altText: true,
+};
+
+export class MediaService {
+  /**
+   * Menyimpan file upload setelah memeriksa tipe (dari isi file) dan ukuran.
+   * Tipe dan ukuran diperiksa sebelum isi file dibaca seluruhnya.
+   */
+  static async upload(
+    userId: number,
+    file: File,
+    options: { altText?: string; width?: number; height?: number }
+  ) {
+    const header = new Uint8Array(
+      await file.slice(0, MIME_SNIFF_BYTES).arrayBuffer()
+    );
+    const mimeType = detectMimeType(header);
+
+    if (!mimeType || !ALLOWED_MEDIA_TYPES[mimeType]) {
+      throw new Error("Unsupported media type");
+    }
+
+    const isVideo = mimeType.startsWith("video/");
+    if (file.size > (isVideo ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES)) {
+      throw new Error("File too large");
+    }
+
+    // Ukuran video tidak dibaca dari file, jadi boleh dikirim oleh client
+    // selama keduanya ada dan masuk akal
+    const { width, height } = options;
+    if (
+      isVideo &&
+      (width !== undefined || height !== undefined) &&
+      !(
+        width !== undefined &&
+        height !== undefined &&
+        isValidDimension(width) &&
+        isValidDimension(height)
+      )
+    ) {
+      throw new Error("Invalid dimensions");
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const dimensions = isVideo
+      ? width && height
+        ? { width, height }
+        : null
+      : getImageDimensions(bytes, mimeType);
+
+    const storageKey = `${userId}/${randomUUID()}.${ALLOWED_MEDIA_TYPES[mimeType]}`;
+    await storage.save(storageKey, bytes, mimeType);
+
+    return prisma.media.create({
+      data: {
+        userId,
+        storageKey,
+        url: storage.getUrl(storageKey),
+        mimeType,
+        size: bytes.length,
+        width: dimensions?.width,
+        height: dimensions?.height,
+        altText: options.altText,
+      },
+      select: mediaSelect,
+    });
+  }
+
+  static async updateAltText(userId: number, mediaId: number, altText: string) {
+    const result = await prisma.media.updateMany({
+      where: { id: mediaId, userId },
+      data: { altText },
+    });
+    if (result.count === 0) return null;
+
+    return prisma.media.findUnique({
+      where: { id: mediaId },
+      select: mediaSelect,
+    });
+  }
+
+  /**
+   * Melampirkan media milik user ke postingan, urut sesuai mediaIds.
+   * Media yang sudah dipakai postingan lain atau milik user lain ditolak.
+   */
+  static async attachToPost(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    postId: number,
+    mediaIds: number[]
+  ) {
+    if (mediaIds.length > MAX_MEDIA_PER_POST) {
+      throw new Error("Too many media attachments");
+    }
+
+    for (const [position, mediaId] of Array.from(mediaIds.entries())) {
+      const result = await tx.media.updateMany({
+        where: { id: mediaId, userId, postId: null },
+        data: { postId, position },
+      });
+      if (result.count === 0) throw new Error("Invalid media");
+    }
+  }
+
+  /**
+   * Mengganti lampiran draft dengan mediaIds. Media yang sedang dipakai
+   * postingan atau draft lain ditolak.
+   */
+  static async attachToDraft(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    draftId: number,
+    mediaIds: number[]
+  ) {
+    if (mediaIds.length > MAX_MEDIA_PER_POST) {
+      throw new Error("Too many media attachments");
+    }
+
+    await tx.media.updateMany({
+      where: { draftId },
+      data: { draftId: null },
+    });
+
+    for (const [position, mediaId] of Array.from(mediaIds.entries())) {
+      const result = await tx.media.updateMany({
+        where: { id: mediaId, userId, postId: null, draftId: null },
+        data: { draftId, position },
+      });
+      if (result.count === 0) throw new Error("Invalid media");
+    }
+  }
+
+  /**
+   * Menghapus upload yang tidak pernah dilampirkan ke postingan maupun draft.
+   */
+  static async cleanupOrphanedMedia(batchSize = 100) {
+    const orphans = await prisma.media.findMany({
+      where: {
+        postId: null,
+        draftId: null,
+        createdAt: { lt: new Date(Date.now() - ORPHAN_TTL_MS) },
+      },
+      select: { id: true, storageKey: true },
+      take: batchSize,
+    });
+
+    for (const media of orphans) {
+      await storage.remove(media.storageKey);
+    }
+
+    await prisma.media.deleteMany({
+      where: { id: { in: orphans.map((media) => media.id) } },
+    });
+    return orphans.length;
+  }
+}
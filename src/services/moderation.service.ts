@@ -0,0 +1,272 @@
+// moderation.service.ts
+import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
+import { PaginationQuery } from "../model/paging";
+import {
+  ModerationActionResponse,
+  ModerationActionType,
+} from "../model/report.types";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { hasRole } from "../utils/role";
+import { SessionService } from "./session.service";
+
+export const moderationUserSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+};
+
+// Tindakan yang mengubah konten atau akun (selain resolve/dismiss laporan)
+export type ModerationTargetAction = Exclude<
+  ModerationActionType,
+  "resolve_report" | "dismiss_report"
+>;
+
+const transformAction = (action: any): ModerationActionResponse => ({
+  id: action.id,
+  action: action.action,
+  moderator: action.moderator,
+  targetUser: action.targetUser,
+  postId: action.postId,
+  reportId: action.reportId,
+  reason: action.reason,
+  createdAt: action.createdAt.toISOString(),
+});
+
+/**
+ * Mengambil akun yang akan ditindak. Moderator tidak bisa menindak dirinya
+ * sendiri maupun akun dengan role setara atau lebih tinggi; admin bisa
+ * menindak moderator.
+ */
+const findModeratableUser = async (
+  tx: Prisma.TransactionClient,
+  moderatorId: number,
+  userId?: number
+) => {
+  if (!userId) throw new Error("User not found");
+  if (userId === moderatorId) throw new Error("Cannot moderate yourself");
+
+  const [user, moderator] = await Promise.all([
+    tx.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    }),
+    tx.user.findUniqueOrThrow({
+      where: { id: moderatorId },
+      select: { role: true },
+    }),
+  ]);
+  if (!user) throw new Error("User not found");
+  const canModerate = hasRole(moderator.role, "admin")
+    ? !hasRole(user.role, "admin")
+    : !hasRole(user.role, "moderator");
+  if (!canModerate) throw new Error("Cannot moderate a moderator");
+  return user;
+};
+
+export class ModerationService {
+  /**
+   * Menjalankan satu tindakan moderasi di dalam transaksi yang diberikan
+   * dan mencatatnya ke log audit. Tindakan bersifat idempoten: menyembunyikan
+   * postingan yang sudah tersembunyi tetap tercatat tanpa error.
+   */
+  static async applyAction(
+    tx: Prisma.TransactionClient,
+    moderatorId: number,
+    action: ModerationTargetAction,
+    target: { userId?: number; postId?: number },
+    reason: string,
+    reportId?: number
+  ) {
+    let targetUserId = target.userId;
+    let postId: number | undefined;
+
+    switch (action) {
+      case "hide_post":
+      case "unhide_post": {
+        const post = target.postId
+          ? await tx.post.findUnique({
+              where: { id: target.postId },
+              select: { id: true, userId: true },
+            })
+          : null;
+        if (!post) throw new Error("Post not found");
+
+        await tx.post.update({
+          where: { id: post.id },
+          data: { isHidden: action === "hide_post" },
+        });
+        postId = post.id;
+        targetUserId = post.userId;
+        break;
+      }
+
+      case "suspend_user":
+      case "unsuspend_user": {
+        const user = await findModeratableUser(tx, moderatorId, target.userId);
+        await tx.user.update({
+          where: { id: user.id },
+          data: { isActive: action === "unsuspend_user" },
+        });
+        // Sesi yang masih berjalan ikut diputus
+        if (action === "suspend_user") {
+          await SessionService.revokeAll(tx, user.id);
+        }
+        break;
+      }
+
+      case "warn_user": {
+        const user = await findModeratableUser(tx, moderatorId, target.userId);
+        // Pelaku diisi user itu sendiri agar identitas moderator tidak terlihat
+        await tx.notification.create({
+          data: {
+            userId: user.id,
+            actorId: user.id,
+            type: "moderation_warning",
+          },
+        });
+        break;
+      }
+    }
+
+    return tx.moderationAction.create({
+      data: { moderatorId, action, targetUserId, postId, reportId, reason },
+    });
+  }
+
+  static async hidePost(moderatorId: number, postId: number, reason: string) {
+    await prisma.$transaction((tx) =>
+      ModerationService.applyAction(
+        tx,
+        moderatorId,
+        "hide_post",
+        { postId },
+        reason
+      )
+    );
+  }
+
+  static async unhidePost(moderatorId: number, postId: number, reason: string) {
+    await prisma.$transaction((tx) =>
+      ModerationService.applyAction(
+        tx,
+        moderatorId,
+        "unhide_post",
+        { postId },
+        reason
+      )
+    );
+  }
+
+  /**
+   * Menangguhkan akun: login dan semua request terautentikasi ditolak, dan
+   * postingannya tidak lagi tampil ke user lain.
+   */
+  static async suspendUser(
+    moderatorId: number,
+    userId: number,
+    reason: string
+  ) {
+    await prisma.$transaction((tx) =>
+      ModerationService.applyAction(
+        tx,
+        moderatorId,
+        "suspend_user",
+        { userId },
+        reason
+      )
+    );
+  }
+
+  static async unsuspendUser(
+    moderatorId: number,
+    userId: number,
+    reason: string
+  ) {
+    await prisma.$transaction((tx) =>
+      ModerationService.applyAction(
+        tx,
+        moderatorId,
+        "unsuspend_user",
+        { userId },
+        reason
+      )
+    );
+  }
+
+  static async warnUser(moderatorId: number, userId: number, reason: string) {
+    await prisma.$transaction((tx) =>
+      ModerationService.applyAction(
+        tx,
+        moderatorId,
+        "warn_user",
+        { userId },
+        reason
+      )
+    );
+  }
+
+  /**
+   * Log audit tindakan moderasi, terbaru dulu. Bisa difilter per akun.
+   */
+  static async getActions(
+    filter: { targetUserId?: number },
+    query: PaginationQuery
+  ) {
+    const limit = query.limit ?? 20;
+    const actions = await prisma.moderationAction.findMany({
+      where: {
+        ...(filter.targetUserId && { targetUserId: filter.targetUserId }),
+        ...createdAtCursorWhere(query.cursor),
+      },
+      include: {
+        moderator: { select: moderationUserSelect },
+        targetUser: { select: moderationUserSelect },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      actions,
+      { ...query, limit },
+      createdAtCursor,
+      transformAction
+    );
+  }
+
+  /**
+   * Peringatan yang diterima user, tanpa menampilkan moderatornya.
+   */
+  static async getWarnings(userId: number, query: PaginationQuery) {
+    const limit = query.limit ?? 20;
+    const warnings = await prisma.moderationAction.findMany({
+      where: {
+        targetUserId: userId,
+        action: "warn_user",
+        ...createdAtCursorWhere(query.cursor),
+      },
+      select: { id: true, reason: true, createdAt: true },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      warnings,
+      { ...query, limit },
+      createdAtCursor,
+      (warning) => ({
+        id: warning.id,
+        reason: warning.reason,
+        createdAt: warning.createdAt.toISOString(),
+      })
+    );
+  }
+}
@@ -0,0 +1,286 @@
+// notification.service.ts
+import { prisma } from "../application/database";
+import { PaginationQuery } from "../model/paging";
+import {
+  NotificationResponse,
+  NotificationType,
+} from "../model/notification.types";
+import { extractMentions } from "../utils/mention";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { BlockService, notBlockedUserWhere } from "./block.service";
+import { KeywordFilterService } from "./keyword-filter.service";
+import { findVisiblePost } from "./post.service";
+
+const actorSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+};
+
+// Kunci grup notifikasi like yang belum dibaca; satu grup per postingan
+const likeGroupKey = (postId: number) => `like:${postId}`;
+
+const buildMessage = (
+  type: NotificationType,
+  actorName: string,
+  actorCount: number
+) => {
+  const actors =
+    actorCount > 1
+      ? `${actorName} and ${actorCount - 1} ${
+          actorCount - 1 === 1 ? "other" : "others"
+        }`
+      : actorName;
+
+  switch (type) {
+    case "like":
+      return `${actors} liked your post`;
+    case "follow":
+      return `${actors} followed you`;
+    case "comment":
+      return `${actors} commented on your post`;
+    case "reply":
+      return `${actors} replied to your post`;
+    case "quote":
+      return `${actors} quoted your post`;
+    case "mention":
+      return `${actors} mentioned you`;
+    case "poll_closed":
+      return `A poll by ${actors} you voted in has ended`;
+    case "follow_request":
+      return `${actors} requested to follow you`;
+    case "follow_accepted":
+      return `${actors} accepted your follow request`;
+    case "moderation_warning":
+      return "Your account received a warning from the moderators";
+  }
+};
+
+const transformNotification = (notification: any): NotificationResponse => ({
+  id: notification.id,
+  type: notification.type,
+  message: buildMessage(
+    notification.type,
+    notification.actor.displayName || notification.actor.username,
+    notification.actorCount
+  ),
+  isRead: notification.isRead,
+  createdAt: notification.createdAt.toISOString(),
+  actor: notification.actor,
+  actorCount: notification.actorCount,
+  post: notification.post,
+  commentId: notification.commentId,
+});
+
+export class NotificationService {
+  /**
+   * Membuat notifikasi untuk penerima. Tidak ada notifikasi untuk aksi pada
+   * konten sendiri. Kegagalan hanya dicatat agar aksi utama tetap berhasil.
+   */
+  static async notify(data: {
+    userId: number;
+    actorId: number;
+    type: NotificationType;
+    postId?: number;
+    commentId?: number;
+  }) {
+    if (data.userId === data.actorId) return;
+
+    try {
+      if (await BlockService.isSilenced(data.userId, data.actorId)) return;
+      await prisma.notification.create({ data });
+    } catch (error) {
+      console.error("Error creating notification:", error);
+    }
+  }
+
+  /**
+   * Like pada postingan yang sama dikelompokkan ke satu notifikasi yang belum
+   * dibaca ("A and 12 others liked your post"). createdAt diperbarui agar
+   * grup tersebut naik ke atas daftar. Grup dicari lewat groupKey yang unik,
+   * sehingga like bersamaan tidak membuat dua grup.
+   */
+  static async notifyLike(userId: number, actorId: number, postId: number) {
+    if (userId === actorId) return;
+
+    try {
+      if (await BlockService.isSilenced(userId, actorId)) return;
+
+      const like = await prisma.like.findUnique({
+        where: { userId_postId: { userId: actorId, postId } },
+        select: { createdAt: true },
+      });
+      // Like sudah dibatalkan lagi sebelum notifikasi sempat dibuat
+      if (!like) return;
+
+      const groupKey = likeGroupKey(postId);
+      await prisma.notification.upsert({
+        where: { groupKey },
+        create: {
+          userId,
+          actorId,
+          postId,
+          type: "like",
+          groupKey,
+          groupStartedAt: like.createdAt,
+        },
+        update: { createdAt: new Date() },
+      });
+      await NotificationService.syncLikeGroup(userId, postId);
+    } catch (error) {
+      console.error("Error creating like notification:", error);
+    }
+  }
+
+  /**
+   * Dipanggil setelah like dibatalkan: pelaku tersebut keluar dari grup yang
+   * belum dibaca, dan grup dihapus jika tidak ada pelaku tersisa.
+   */
+  static async notifyUnlike(userId: number, postId: number) {
+    try {
+      await NotificationService.syncLikeGroup(userId, postId);
+    } catch (error) {
+      console.error("Error updating like notification:", error);
+    }
+  }
+
+  /**
+   * Menghitung ulang pelaku grup like dari baris Like yang masih ada sejak
+   * grup dimulai, sehingga like-unlike berulang tidak menambah jumlahnya.
+   * Pelaku yang diblokir atau di-mute penerima tidak ikut dihitung.
+   */
+  private static async syncLikeGroup(userId: number, postId: number) {
+    const group = await prisma.notification.findUnique({
+      where: { groupKey: likeGroupKey(postId) },
+      select: { id: true, groupStartedAt: true },
+    });
+    if (!group) return;
+
+    const likeWhere = {
+      postId,
+      userId: { not: userId },
+      createdAt: { gte: group.groupStartedAt ?? undefined },
+      user: {
+        ...notBlockedUserWhere(userId),
+        mutedBy: { none: { userId } },
+      },
+    };
+    const [actorCount, latest] = await Promise.all([
+      prisma.like.count({ where: likeWhere }),
+      prisma.like.findFirst({
+        where: likeWhere,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        select: { userId: true },
+      }),
+    ]);
+
+    if (!latest) {
+      await prisma.notification.deleteMany({ where: { id: group.id } });
+      return;
+    }
+    await prisma.notification.updateMany({
+      where: { id: group.id },
+      data: { actorCount, actorId: latest.userId },
+    });
+  }
+
+  /**
+   * Membuat notifikasi mention untuk setiap @username di dalam konten.
+   */
+  static async notifyMentions(
+    actorId: number,
+    postId: number,
+    content: string,
+    excludeUserIds: number[] = []
+  ) {
+    const usernames = extractMentions(content);
+    if (usernames.length === 0) return;
+
+    const users = await prisma.user.findMany({
+      where: { username: { in: usernames }, isActive: true },
+      select: { id: true },
+    });
+
+    for (const user of users) {
+      if (excludeUserIds.includes(user.id)) continue;
+      // Mention di postingan followers-only tidak sampai ke non-follower
+      if (!(await findVisiblePost(postId, user.id))) continue;
+      await NotificationService.notify({
+        userId: user.id,
+        actorId,
+        type: "mention",
+        postId,
+      });
+    }
+  }
+
+  /**
+   * Mengambil notifikasi milik user dengan paginasi, opsional difilter
+   * berdasarkan tipe atau status belum dibaca.
+   */
+  static async getNotifications(
+    userId: number,
+    filter: { type?: NotificationType; unreadOnly?: boolean },
+    query: PaginationQuery
+  ) {
+    const limit = query.limit ?? 20;
+    const notifications = await prisma.notification.findMany({
+      where: {
+        userId,
+        ...(filter.type && { type: filter.type }),
+        ...(filter.unreadOnly && { isRead: false }),
+        ...createdAtCursorWhere(query.cursor),
+      },
+      include: {
+        actor: { select: actorSelect },
+        post: { select: { id: true, content: true, userId: true } },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    // Hanya postingan milik orang lain (reply, quote, mention) yang difilter
+    return KeywordFilterService.applyToPage(
+      userId,
+      "notifications",
+      toPaginatedResponse(
+        notifications,
+        { ...query, limit },
+        createdAtCursor,
+        transformNotification
+      ),
+      (notification) =>
+        notification.post && notification.post.userId !== userId
+          ? notification.post.content
+          : null
+    );
+  }
+
+  static async getUnreadCount(userId: number) {
+    return prisma.notification.count({ where: { userId, isRead: false } });
+  }
+
+  // Notifikasi yang sudah dibaca keluar dari grupnya; like berikutnya
+  // memulai grup baru
+  static async markAsRead(userId: number, notificationId: number) {
+    const result = await prisma.notification.updateMany({
+      where: { id: notificationId, userId },
+      data: { isRead: true, groupKey: null },
+    });
+    return result.count > 0;
+  }
+
+  static async markAllAsRead(userId: number) {
+    const result = await prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true, groupKey: null },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,168 @@
+// poll.service.ts
+import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
+import { PollPayload, PollResponse } from "../model/post.types";
+import { NotificationService } from "./notification.service";
+import { visiblePostWhere } from "./post.service";
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 4;
+export const MAX_POLL_OPTION_LENGTH = 50;
+
+// Rentang durasi polling yang diizinkan
+export const MIN_POLL_DURATION_MS = 5 * 60 * 1000;
+export const MAX_POLL_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const getPollInclude = (currentUserId?: number) => ({
+  options: {
+    orderBy: { position: "asc" as const },
+  },
+  votes: {
+    where: { userId: currentUserId },
+    select: { optionId: true },
+  },
+});
+
+type PollWithOptions = Prisma.PollGetPayload<{
+  include: ReturnType<typeof getPollInclude>;
+}>;
+
+/**
+ * Jumlah suara hanya ditampilkan jika user sudah memilih atau polling
+ * sudah ditutup, agar hasil sementara tidak memengaruhi pilihan.
+ */
+export const transformPoll = (poll: PollWithOptions): PollResponse => {
+  const votedOptionId = poll.votes?.[0]?.optionId ?? null;
+  const isClosed = poll.closesAt.getTime() <= Date.now();
+  const showResults = isClosed || votedOptionId !== null;
+
+  return {
+    id: poll.id,
+    closesAt: poll.closesAt.toISOString(),
+    isClosed,
+    votedOptionId,
+    totalVotes: showResults
+      ? poll.options.reduce((total, option) => total + option.voteCount, 0)
+      : null,
+    options: poll.options.map((option) => ({
+      id: option.id,
+      text: option.text,
+      voteCount: showResults ? option.voteCount : null,
+    })),
+  };
+};
+
+export class PollService {
+  /**
+   * Membuat polling untuk postingan, dipanggil di dalam transaksi createPost.
+   */
+  static async createPoll(
+    tx: Prisma.TransactionClient,
+    postId: number,
+    data: PollPayload
+  ) {
+    return tx.poll.create({
+      data: {
+        postId,
+        closesAt: new Date(data.closesAt),
+        options: {
+          create: data.options.map((text, position) => ({
+            text: text.trim(),
+            position,
+          })),
+        },
+      },
+    });
+  }
+
+  /**
+   * Memberikan suara pada polling. Satu user hanya bisa memilih sekali dan
+   * suara tidak diterima setelah polling ditutup.
+   */
+  static async vote(userId: number, postId: number, optionId: number) {
+    try {
+      const poll = await prisma.$transaction(async (tx) => {
+        const poll = await tx.poll.findFirst({
+          where: {
+            postId,
+            post: { isDeleted: false, AND: [visiblePostWhere(userId)] },
+          },
+          include: { options: { select: { id: true } } },
+        });
+        if (!poll) throw new Error("Poll not found");
+        if (poll.closesAt.getTime() <= Date.now()) {
+          throw new Error("Poll is closed");
+        }
+        if (!poll.options.some((option) => option.id === optionId)) {
+          throw new Error("Invalid option");
+        }
+
+        const existingVote = await tx.pollVote.findUnique({
+          where: { pollId_userId: { pollId: poll.id, userId } },
+        });
+        if (existingVote) throw new Error("Already voted");
+
+        await tx.pollVote.create({
+          data: { pollId: poll.id, optionId, userId },
+        });
+        await tx.pollOption.update({
+          where: { id: optionId },
+          data: { voteCount: { increment: 1 } },
+        });
+
+        return tx.poll.findUniqueOrThrow({
+          where: { id: poll.id },
+          include: getPollInclude(userId),
+        });
+      });
+
+      return transformPoll(poll);
+    } catch (error: any) {
+      // Dua request bersamaan dari user yang sama ditolak oleh unique constraint
+      if (error.code === "P2002") throw new Error("Already voted");
+      throw error;
+    }
+  }
+
+  /**
+   * Mengirim notifikasi ke semua pemilih untuk polling yang sudah ditutup.
+   * votersNotifiedAt diklaim lebih dulu agar notifikasi tidak terkirim dua
+   * kali jika job berjalan di beberapa instance. Polling di postingan yang
+   * dihapus atau disembunyikan moderator dilewati.
+   */
+  static async notifyClosedPolls() {
+    const polls = await prisma.poll.findMany({
+      where: {
+        closesAt: { lte: new Date() },
+        votersNotifiedAt: null,
+        post: { isDeleted: false, isHidden: false },
+      },
+      select: { id: true, postId: true, post: { select: { userId: true } } },
+      take: 100,
+    });
+
+    let notified = 0;
+    for (const poll of polls) {
+      const claimed = await prisma.poll.updateMany({
+        where: { id: poll.id, votersNotifiedAt: null },
+        data: { votersNotifiedAt: new Date() },
+      });
+      if (claimed.count === 0) continue;
+
+      const votes = await prisma.pollVote.findMany({
+        where: { pollId: poll.id },
+        select: { userId: true },
+      });
+      for (const vote of votes) {
+        await NotificationService.notify({
+          userId: vote.userId,
+          actorId: poll.post.userId,
+          type: "poll_closed",
+          postId: poll.postId,
+        });
+      }
+      notified++;
+    }
+    return notified;
+  }
+}
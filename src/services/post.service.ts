@@ -1,12 +1,39 @@
 // post.service.ts
 import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
 import {
   PostPayload,
   UpdatePostRequest,
   CreateCommentRequest,
   CreateRepostRequest,
   PostResponse,
+  PostTombstone,
+  ThreadNode,
+  ThreadResponse,
 } from "../model/post.types";
+import { PaginatedResponse, PaginationQuery } from "../model/paging";
+import { extractMentions } from "../utils/mention";
+import {
+  afterCreatedAt,
+  createdAtCursor,
+  createdAtCursorWhere,
+  decodeCursor,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { notBlockedUserWhere } from "./block.service";
+import { HashtagService } from "./hashtag.service";
+import { KeywordFilterService } from "./keyword-filter.service";
+import { LinkPreviewService, linkPreviewSelect } from "./link-preview.service";
+import { MediaService, mediaSelect } from "./media.service";
+import { NotificationService } from "./notification.service";
+import { PollService, getPollInclude, transformPoll } from "./poll.service";
+
+// Batas waktu (menit) setelah createdAt untuk mengedit postingan.
+// Nilai 0 berarti postingan bisa diedit kapan saja.
+const POST_EDIT_WINDOW_MINUTES = Number(
+  process.env.POST_EDIT_WINDOW_MINUTES ?? 60
+);
 
 const userPublicSelect = {
   id: true,
@@ -15,12 +42,113 @@ const userPublicSelect = {
   isVerified: true,
 };
 
-const getPostInclude = (currentUserId?: number) => ({
+/**
+ * Klausa where untuk postingan yang boleh dilihat viewer. Pakai di dalam
+ * AND agar tidak bertabrakan dengan OR dari cursor.
+ * Postingan akun private hanya terlihat oleh follower yang sudah disetujui,
+ * dan postingan dari akun yang saling memblokir tidak pernah terlihat.
+ * Postingan yang disembunyikan moderator dan postingan dari akun yang
+ * ditangguhkan tidak terlihat oleh siapa pun.
+ */
+export const visiblePostWhere = (viewerId?: number): Prisma.PostWhereInput => {
+  if (!viewerId) {
+    return {
+      isHidden: false,
+      visibility: "public",
+      user: { isPrivate: false, isActive: true },
+    };
+  }
+
+  // user.following berisi baris Follower dengan followingId = penulis
+  const followsAuthor = { user: { following: { some: { userId: viewerId } } } };
+  return {
+    isHidden: false,
+    OR: [
+      { userId: viewerId },
+      {
+        AND: [
+          { user: { isActive: true, ...notBlockedUserWhere(viewerId) } },
+          { OR: [{ user: { isPrivate: false } }, followsAuthor] },
+          {
+            OR: [
+              { visibility: "public" },
+              { visibility: "followers", ...followsAuthor },
+              {
+                visibility: "mentioned",
+                mentions: { some: { userId: viewerId } },
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+};
+
+/**
+ * Klausa where untuk feed: sembunyikan postingan dari akun yang di-mute.
+ * Postingan tersebut tetap bisa dibuka langsung.
+ */
+export const notMutedWhere = (viewerId?: number): Prisma.PostWhereInput =>
+  viewerId ? { user: { mutedBy: { none: { userId: viewerId } } } } : {};
+
+/**
+ * Mengambil postingan jika ada dan boleh dilihat viewer. Postingan yang
+ * tidak boleh dilihat diperlakukan sama seperti tidak ada (404).
+ */
+export const findVisiblePost = (postId: number, viewerId?: number) =>
+  prisma.post.findFirst({
+    where: { id: postId, isDeleted: false, AND: [visiblePostWhere(viewerId)] },
+    select: { id: true, userId: true, visibility: true },
+  });
+
+// Menyaring id postingan yang boleh dilihat viewer.
+export const getVisiblePostIds = async (ids: number[], viewerId?: number) => {
+  if (ids.length === 0) return new Set<number>();
+  const posts = await prisma.post.findMany({
+    where: { id: { in: ids }, AND: [visiblePostWhere(viewerId)] },
+    select: { id: true },
+  });
+  return new Set(posts.map((post) => post.id));
+};
+
+// Menyamakan daftar user yang di-mention dengan isi postingan.
+const syncPostMentions = async (postId: number, content: string) => {
+  const usernames = extractMentions(content);
+  const users = usernames.length
+    ? await prisma.user.findMany({
+        where: { username: { in: usernames } },
+        select: { id: true },
+      })
+    : [];
+  const userIds = users.map((user) => user.id);
+
+  await prisma.$transaction([
+    prisma.postMention.deleteMany({
+      where: { postId, userId: { notIn: userIds } },
+    }),
+    prisma.postMention.createMany({
+      data: userIds.map((userId) => ({ postId, userId })),
+      skipDuplicates: true,
+    }),
+  ]);
+};
+
+// Quote yang dihapus atau disembunyikan moderator tidak ikut dihitung
+export const quoteCountWhere = { isDeleted: false, isHidden: false };
+
+const getBasePostInclude = (currentUserId?: number) => ({
   user: {
     select: userPublicSelect,
   },
   _count: {
-    select: { likes: true, comments: true, reposts: true },
+    select: {
+      likes: true,
+      // Komentar yang dihapus (soft delete) tidak ikut dihitung
+      comments: { where: { isDeleted: false } },
+      reposts: true,
+      quotes: { where: quoteCountWhere },
+    },
   },
   likes: {
     where: { userId: currentUserId },
@@ -30,71 +158,446 @@ const getPostInclude = (currentUserId?: number) => ({
     where: { userId: currentUserId, isQuotePost: false },
     select: { userId: true },
   },
+  bookmarks: {
+    where: { userId: currentUserId },
+    select: { userId: true },
+  },
+  media: {
+    select: mediaSelect,
+    orderBy: { position: "asc" as const },
+  },
+  linkPreview: {
+    select: linkPreviewSelect,
+  },
+  poll: {
+    include: getPollInclude(currentUserId),
+  },
+});
+
+export const getPostInclude = (currentUserId?: number) => ({
+  ...getBasePostInclude(currentUserId),
+  quotedPost: {
+    include: getBasePostInclude(currentUserId),
+  },
+});
+
+const toTombstone = (post: any): PostTombstone => ({
+  id: post.id,
+  parentPostId: post.parentPostId,
+  createdAt: post.createdAt.toISOString(),
+  isDeleted: true,
 });
 
-const transformPost = (post: any): PostResponse => {
-  const { likes, reposts, ...restOfPost } = post;
+/**
+ * Mengganti postingan yang dikutip dengan tombstone jika sudah dihapus atau
+ * tidak boleh dilihat viewer (disembunyikan moderator, followers-only, akun
+ * private, diblokir). Relasi quotedPost tidak bisa difilter saat include,
+ * jadi setiap hasil query yang menyertakannya harus lewat sini sebelum
+ * dikirim ke klien.
+ */
+export const hideUnavailableQuotes = async <T extends { quotedPost?: any }>(
+  posts: T[],
+  viewerId?: number
+): Promise<T[]> => {
+  const quotedIds = posts
+    .map((post) => post.quotedPost)
+    .filter((quoted) => quoted && !quoted.isDeleted)
+    .map((quoted) => quoted.id as number);
+  const visibleIds = await getVisiblePostIds(quotedIds, viewerId);
+
+  return posts.map((post) =>
+    post.quotedPost &&
+    (post.quotedPost.isDeleted || !visibleIds.has(post.quotedPost.id))
+      ? {
+          ...post,
+          // Hanya field tombstone yang tersisa; transformPost mengenalinya
+          // lewat isDeleted
+          quotedPost: {
+            id: post.quotedPost.id,
+            parentPostId: post.quotedPost.parentPostId,
+            createdAt: post.quotedPost.createdAt,
+            isDeleted: true,
+          },
+        }
+      : post
+  );
+};
+
+export const transformPost = (post: any): PostResponse => {
+  const { likes, reposts, bookmarks, quotedPost, poll, ...restOfPost } = post;
   return {
     ...restOfPost,
     isLiked: likes?.length > 0,
     isReposted: reposts?.length > 0,
+    isBookmarked: bookmarks?.length > 0,
     likeCount: post._count.likes,
     commentCount: post._count.comments,
     repostCount: post._count.reposts,
+    quoteCount: post._count.quotes ?? 0,
     createdAt: post.createdAt.toISOString(), // Pastikan format ISO
     updatedAt: post.updatedAt?.toISOString() || null,
     isEdited: post.isEdited || false,
     isPinned: post.isPinned || false,
+    // Kutipan yang dihapus atau tidak boleh dilihat sudah ditandai isDeleted
+    // oleh hideUnavailableQuotes
+    quotedPost: quotedPost
+      ? quotedPost.isDeleted
+        ? toTombstone(quotedPost)
+        : transformPost(quotedPost)
+      : null,
+    poll: poll ? transformPoll(poll) : null,
   };
 };
 
-// Membuat postingan baru atau balasan.
-export const createPost = async (userId: number, data: PostPayload) => {
-  const post = await prisma.post.create({
-    data: {
-      userId,
-      content: data.content || "",
-      parentPostId: data.parentPostId,
-      isDeleted: false,
-    },
-    include: getPostInclude(userId),
+/**
+ * Membuat postingan baru atau balasan. beforeCommit dijalankan di dalam transaksi yang sama,
+ * misalnya untuk menghapus draft yang diterbitkan agar keduanya atomik.
+ */
+export const createPost = async (
+  userId: number,
+  data: PostPayload,
+  beforeCommit?: (tx: Prisma.TransactionClient, postId: number) => Promise<void>
+) => {
+  if (data.parentPostId && !(await findVisiblePost(data.parentPostId, userId))) {
+    throw new Error("Post not found");
+  }
+
+  const post = await prisma.$transaction(async (tx) => {
+    const created = await tx.post.create({
+      data: {
+        userId,
+        content: data.content || "",
+        visibility: data.visibility ?? "public",
+        parentPostId: data.parentPostId,
+        isDeleted: false,
+      },
+    });
+
+    if (data.mediaIds?.length) {
+      await MediaService.attachToPost(tx, userId, created.id, data.mediaIds);
+    }
+    if (data.poll) {
+      await PollService.createPoll(tx, created.id, data.poll);
+    }
+    if (beforeCommit) await beforeCommit(tx, created.id);
+
+    return tx.post.findUniqueOrThrow({
+      where: { id: created.id },
+      include: getPostInclude(userId),
+    });
   });
 
+  await HashtagService.syncPostHashtags(post.id, post.content);
+  await syncPostMentions(post.id, post.content);
+  const linkPreview = await LinkPreviewService.attachToPost(
+    post.id,
+    post.content
+  );
+
+  let parentAuthorId: number | undefined;
   if (post.parentPostId) {
-    await prisma.post.update({
+    const parent = await prisma.post.update({
       where: { id: post.parentPostId },
       data: { commentCount: { increment: 1 } },
     });
+    parentAuthorId = parent.userId;
+    await NotificationService.notify({
+      userId: parent.userId,
+      actorId: userId,
+      type: "reply",
+      postId: post.id,
+    });
   }
 
-  return transformPost(post);
+  // Penulis postingan induk sudah mendapat notifikasi reply
+  await NotificationService.notifyMentions(
+    userId,
+    post.id,
+    post.content,
+    parentAuthorId ? [parentAuthorId] : []
+  );
+
+  return transformPost({ ...post, linkPreview });
 };
 
 // Mengambil semua postingan (timeline utama) dengan paginasi.
 export const getPosts = async (
-  currentUserId?: number,
-  limit = 10,
-  offset = 0
+  currentUserId: number | undefined,
+  query: PaginationQuery
 ) => {
-  const whereClause = { isDeleted: false, parentPostId: null };
-
   const posts = await prisma.post.findMany({
-    where: whereClause,
-    orderBy: { createdAt: "desc" },
+    where: {
+      isDeleted: false,
+      parentPostId: null,
+      AND: [visiblePostWhere(currentUserId), notMutedWhere(currentUserId)],
+      ...createdAtCursorWhere(query.cursor),
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    include: getPostInclude(currentUserId),
+    take: (query.limit ?? 10) + 1,
+    skip: getSkip(query),
+  });
+
+  return KeywordFilterService.applyToPage(
+    currentUserId,
+    "home",
+    toPaginatedResponse(
+      await hideUnavailableQuotes(posts, currentUserId),
+      query,
+      createdAtCursor,
+      transformPost
+    )
+  );
+};
+
+type TimelineKey = { activityAt: string; kind: "post" | "repost"; id: number };
+
+// Urutan timeline: terbaru dulu, lalu repost sebelum post, lalu id terbesar.
+const compareTimelineKeys = (a: TimelineKey, b: TimelineKey) =>
+  new Date(b.activityAt).getTime() - new Date(a.activityAt).getTime() ||
+  (b.kind === "repost" ? 1 : 0) - (a.kind === "repost" ? 1 : 0) ||
+  b.id - a.id;
+
+/**
+ * Klausa where untuk baris post atau repost yang berada setelah `after`
+ * dalam urutan timeline. Pada waktu yang sama repost lebih dulu, jadi
+ * setelah sebuah repost semua post dengan waktu itu masih tersisa, dan
+ * setelah sebuah post tidak ada repost dengan waktu itu yang tersisa.
+ */
+const timelineKeysetWhere = (
+  after: TimelineKey | null,
+  kind: TimelineKey["kind"]
+) => {
+  if (!after) return {};
+  const activityAt = new Date(after.activityAt);
+  if (after.kind === kind) {
+    return {
+      OR: [
+        { createdAt: { lt: activityAt } },
+        { createdAt: activityAt, id: { lt: after.id } },
+      ],
+    };
+  }
+  return {
+    createdAt: kind === "post" ? { lte: activityAt } : { lt: activityAt },
+  };
+};
+
+type TimelineEntry = {
+  key: TimelineKey;
+  postId: number;
+  repostedBy?: { id: number; username: string; displayName: string | null };
+};
+
+/**
+ * Mengambil home timeline: postingan dan repost dari akun yang di-follow
+ * (ditambah milik sendiri), diurutkan berdasarkan waktu terbaru. Repost
+ * dari akun yang di-mute tidak ikut. Postingan yang muncul lebih dari
+ * sekali hanya ditampilkan satu kali pada aktivitas terbarunya, termasuk di
+ * halaman berikutnya saat memakai cursor.
+ *
+ * Post dan repost dibaca bergantian per batch dengan keyset lalu digabung,
+ * sampai halaman penuh atau kedua sumber habis.
+ */
+export const getHomeTimeline = async (
+  currentUserId: number,
+  query: PaginationQuery
+) => {
+  const limit = query.limit ?? 10;
+  const skip = getSkip(query);
+  const cursor = decodeCursor<TimelineKey>(query.cursor, {
+    activityAt: "date",
+    kind: "string",
+    id: "integer",
+  });
+
+  const following = await prisma.follower.findMany({
+    where: { userId: currentUserId },
+    select: { followingId: true },
+  });
+  const authorIds = [currentUserId, ...following.map((f) => f.followingId)];
+
+  const postWhere = {
+    isDeleted: false,
+    AND: [visiblePostWhere(currentUserId), notMutedWhere(currentUserId)],
+  };
+  // Repost yang dihitung di timeline: bukan quote, dari akun yang di-follow
+  // dan tidak di-mute.
+  const reposterWhere = {
+    userId: { in: authorIds },
+    isQuotePost: false,
+    user: { mutedBy: { none: { userId: currentUserId } } },
+  };
+
+  // Postingan yang sudah punya aktivitas lebih baru dari cursor sudah
+  // tampil di halaman sebelumnya.
+  const findShownBefore = async (postIds: number[]) => {
+    if (!cursor || postIds.length === 0) return new Set<number>();
+    const cursorDate = new Date(cursor.activityAt);
+    const shown = await prisma.post.findMany({
+      where: {
+        id: { in: postIds },
+        OR: [
+          {
+            userId: { in: authorIds },
+            parentPostId: null,
+            createdAt: { gt: cursorDate },
+          },
+          {
+            reposts: {
+              some: { ...reposterWhere, createdAt: { gt: cursorDate } },
+            },
+          },
+        ],
+      },
+      select: { id: true },
+    });
+    return new Set(shown.map((post) => post.id));
+  };
+
+  const needed = skip + limit + 1;
+  const batchSize = Math.max(needed, 20);
+
+  let postsAfter = cursor;
+  let repostsAfter = cursor;
+  let postsDone = false;
+  let repostsDone = false;
+  let postBuffer: TimelineEntry[] = [];
+  let repostBuffer: TimelineEntry[] = [];
+
+  const fetchPosts = async () => {
+    const rows = await prisma.post.findMany({
+      where: {
+        ...postWhere,
+        userId: { in: authorIds },
+        parentPostId: null,
+        ...timelineKeysetWhere(postsAfter, "post"),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      select: { id: true, createdAt: true },
+      take: batchSize,
+    });
+    postsDone = rows.length < batchSize;
+    const entries = rows.map(
+      (row): TimelineEntry => ({
+        key: {
+          activityAt: row.createdAt.toISOString(),
+          kind: "post",
+          id: row.id,
+        },
+        postId: row.id,
+      })
+    );
+    if (entries.length > 0) postsAfter = entries[entries.length - 1].key;
+    const shown = await findShownBefore(entries.map((entry) => entry.postId));
+    postBuffer = entries.filter((entry) => !shown.has(entry.postId));
+  };
+
+  const fetchReposts = async () => {
+    const rows = await prisma.repost.findMany({
+      where: {
+        ...reposterWhere,
+        post: postWhere,
+        ...timelineKeysetWhere(repostsAfter, "repost"),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      select: {
+        id: true,
+        createdAt: true,
+        postId: true,
+        user: { select: { id: true, username: true, displayName: true } },
+      },
+      take: batchSize,
+    });
+    repostsDone = rows.length < batchSize;
+    const entries = rows.map(
+      (row): TimelineEntry => ({
+        key: {
+          activityAt: row.createdAt.toISOString(),
+          kind: "repost",
+          id: row.id,
+        },
+        postId: row.postId,
+        repostedBy: row.user,
+      })
+    );
+    if (entries.length > 0) repostsAfter = entries[entries.length - 1].key;
+    const shown = await findShownBefore(entries.map((entry) => entry.postId));
+    repostBuffer = entries.filter((entry) => !shown.has(entry.postId));
+  };
+
+  const seen = new Set<number>();
+  const entries: TimelineEntry[] = [];
+  while (entries.length < needed) {
+    while (postBuffer.length === 0 && !postsDone) await fetchPosts();
+    while (repostBuffer.length === 0 && !repostsDone) await fetchReposts();
+
+    const nextPost = postBuffer[0];
+    const nextRepost = repostBuffer[0];
+    if (!nextPost && !nextRepost) break;
+
+    const next =
+      !nextRepost ||
+      (nextPost && compareTimelineKeys(nextPost.key, nextRepost.key) < 0)
+        ? postBuffer.shift()!
+        : repostBuffer.shift()!;
+    // Aktivitas pertama dalam urutan adalah yang terbaru untuk postingan itu.
+    if (seen.has(next.postId)) continue;
+    seen.add(next.postId);
+    entries.push(next);
+  }
+
+  const pageEntries = entries.slice(skip, skip + limit + 1);
+  const rawPosts = await prisma.post.findMany({
+    where: { id: { in: pageEntries.map((entry) => entry.postId) } },
     include: getPostInclude(currentUserId),
-    take: limit,
-    skip: offset,
   });
+  const postsById = new Map(
+    (await hideUnavailableQuotes(rawPosts, currentUserId)).map((post) => [
+      post.id,
+      post,
+    ])
+  );
 
-  return posts.map(transformPost);
+  const items = pageEntries.flatMap((entry) => {
+    const post = postsById.get(entry.postId);
+    if (!post) return [];
+    return [
+      {
+        key: entry.key,
+        post: entry.repostedBy
+          ? {
+              ...transformPost(post),
+              repostedBy: entry.repostedBy,
+              repostedAt: new Date(entry.key.activityAt),
+            }
+          : transformPost(post),
+      },
+    ];
+  });
+
+  return KeywordFilterService.applyToPage(
+    currentUserId,
+    "home",
+    toPaginatedResponse(
+      items,
+      query,
+      (item) => item.key,
+      (item): PostResponse => item.post
+    )
+  );
 };
 
 /**
  * Mengambil detail satu postingan beserta interaksinya.
  */
 export const getPostDetail = async (postId: number, currentUserId?: number) => {
-  const post = await prisma.post.findUnique({
-    where: { id: postId, isDeleted: false },
+  const post = await prisma.post.findFirst({
+    where: {
+      id: postId,
+      isDeleted: false,
+      AND: [visiblePostWhere(currentUserId)],
+    },
     include: {
       ...getPostInclude(currentUserId),
       comments: {
@@ -106,9 +609,168 @@ export const getPostDetail = async (postId: number, currentUserId?: number) => {
   });
 
   if (!post) return null;
+  const [visiblePost] = await hideUnavailableQuotes([post], currentUserId);
+  return transformPost(visiblePost);
+};
+
+// Postingan yang sudah dihapus tetap muncul sebagai tombstone agar
+// struktur thread tidak terputus.
+const toThreadNode = (post: any): ThreadNode => {
+  if (post.isDeleted) return toTombstone(post);
   return transformPost(post);
 };
 
+type ReplyCursor = { own: boolean; createdAt: string; id: number };
+
+/**
+ * Mengambil satu halaman balasan langsung dari sebuah postingan.
+ * Balasan dari penulis thread selalu ditampilkan lebih dulu, lalu sisanya
+ * diurutkan dari yang terlama.
+ */
+const getReplyPage = async (
+  parentPostId: number,
+  threadAuthorId: number,
+  query: PaginationQuery,
+  currentUserId?: number
+) => {
+  const limit = query.limit ?? 10;
+  const cursor = decodeCursor<ReplyCursor>(query.cursor, {
+    own: "boolean",
+    createdAt: "date",
+    id: "integer",
+  });
+  const keyset = cursor ? afterCreatedAt(cursor, "asc") : {};
+  const findReplies = (own: boolean, where: object, take: number) =>
+    prisma.post.findMany({
+      where: {
+        parentPostId,
+        userId: own ? threadAuthorId : { not: threadAuthorId },
+        AND: [visiblePostWhere(currentUserId)],
+        ...where,
+      },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      include: getPostInclude(currentUserId),
+      take,
+    });
+
+  const findVisibleReplies = async (
+    own: boolean,
+    where: object,
+    take: number
+  ) => hideUnavailableQuotes(await findReplies(own, where, take), currentUserId);
+
+  const rows: { own: boolean; post: any }[] = [];
+  if (!cursor || cursor.own) {
+    const own = await findVisibleReplies(true, keyset, limit + 1);
+    rows.push(...own.map((post) => ({ own: true, post })));
+  }
+  if (rows.length <= limit) {
+    const others = await findVisibleReplies(
+      false,
+      cursor && !cursor.own ? keyset : {},
+      limit + 1 - rows.length
+    );
+    rows.push(...others.map((post) => ({ own: false, post })));
+  }
+
+  return toPaginatedResponse(
+    rows,
+    { limit, cursor: query.cursor },
+    (row): ReplyCursor => ({
+      own: row.own,
+      createdAt: row.post.createdAt.toISOString(),
+      id: row.post.id,
+    }),
+    (row) => row.post
+  );
+};
+
+const MAX_ANCESTORS = 50;
+
+/**
+ * Mengambil thread percakapan: rantai postingan induk sampai root,
+ * postingan yang diminta, dan pohon balasan sampai kedalaman tertentu.
+ * `query` mengatur paginasi balasan langsung dari postingan yang diminta.
+ */
+export const getPostThread = async (
+  postId: number,
+  options: { depth: number; query: PaginationQuery },
+  currentUserId?: number
+): Promise<ThreadResponse | null> => {
+  const found = await prisma.post.findUnique({
+    where: { id: postId },
+    include: getPostInclude(currentUserId),
+  });
+  if (!found) return null;
+  const [post] = await hideUnavailableQuotes([found], currentUserId);
+  if (
+    !post.isDeleted &&
+    !(await getVisiblePostIds([post.id], currentUserId)).has(post.id)
+  ) {
+    return null;
+  }
+
+  let ancestors: any[] = [];
+  let parentId = post.parentPostId;
+  while (parentId && ancestors.length < MAX_ANCESTORS) {
+    const parent = await prisma.post.findUnique({
+      where: { id: parentId },
+      include: getPostInclude(currentUserId),
+    });
+    if (!parent) break;
+    ancestors.unshift(parent);
+    parentId = parent.parentPostId;
+  }
+  ancestors = await hideUnavailableQuotes(ancestors, currentUserId);
+  const threadAuthorId = (ancestors[0] ?? post).userId;
+
+  // Induk yang tidak boleh dilihat ditampilkan sebagai tombstone
+  const visibleAncestorIds = await getVisiblePostIds(
+    ancestors.map((ancestor) => ancestor.id),
+    currentUserId
+  );
+
+  const buildReplies = async (
+    parentPostId: number,
+    depth: number,
+    query: PaginationQuery
+  ): Promise<PaginatedResponse<ThreadNode>> => {
+    const page = await getReplyPage(
+      parentPostId,
+      threadAuthorId,
+      query,
+      currentUserId
+    );
+    // Balasan yang tersembunyi oleh filter ikut menyembunyikan sub-thread-nya
+    const nodes = await KeywordFilterService.applyToPage(
+      currentUserId,
+      "replies",
+      { data: page.data.map(toThreadNode), pagination: page.pagination }
+    );
+    const data = await Promise.all(
+      nodes.data.map(async (node): Promise<ThreadNode> => {
+        if (depth > 1) {
+          node.replies = await buildReplies(node.id, depth - 1, {
+            limit: query.limit,
+          });
+        }
+        return node;
+      })
+    );
+    return { data, pagination: page.pagination };
+  };
+
+  return {
+    ancestors: ancestors.map((ancestor) =>
+      visibleAncestorIds.has(ancestor.id)
+        ? toThreadNode(ancestor)
+        : toTombstone(ancestor)
+    ),
+    post: toThreadNode(post),
+    replies: await buildReplies(post.id, options.depth, options.query),
+  };
+};
+
 /**
  * Memperbarui konten sebuah postingan.
  */
@@ -123,11 +785,61 @@ export const updatePost = async (
 
   if (!postToUpdate) return null;
 
-  return prisma.post.update({
-    where: { id: postId },
-    data: { content: data.content, isEdited: true, updatedAt: new Date() },
-    include: getPostInclude(userId),
+  if (
+    POST_EDIT_WINDOW_MINUTES > 0 &&
+    Date.now() - postToUpdate.createdAt.getTime() >
+      POST_EDIT_WINDOW_MINUTES * 60 * 1000
+  ) {
+    throw new Error("Edit window has expired");
+  }
+
+  // Simpan konten lama sebagai revisi sebelum ditimpa
+  const [, updatedPost] = await prisma.$transaction([
+    prisma.postRevision.create({
+      data: { postId, content: postToUpdate.content },
+    }),
+    prisma.post.update({
+      where: { id: postId },
+      data: { content: data.content, isEdited: true, updatedAt: new Date() },
+      include: getPostInclude(userId),
+    }),
+  ]);
+
+  await HashtagService.syncPostHashtags(postId, data.content);
+  await syncPostMentions(postId, data.content);
+
+  const [visiblePost] = await hideUnavailableQuotes([updatedPost], userId);
+  return visiblePost;
+};
+
+/**
+ * Mengambil riwayat edit sebuah postingan, dari revisi terbaru.
+ */
+export const getPostHistory = async (
+  postId: number,
+  query: PaginationQuery,
+  currentUserId?: number
+) => {
+  const post = await findVisiblePost(postId, currentUserId);
+  if (!post) return null;
+
+  const revisions = await prisma.postRevision.findMany({
+    where: { postId, ...createdAtCursorWhere(query.cursor) },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: (query.limit ?? 20) + 1,
+    skip: getSkip(query),
   });
+
+  return toPaginatedResponse(
+    revisions,
+    { ...query, limit: query.limit ?? 20 },
+    createdAtCursor,
+    (revision) => ({
+      id: revision.id,
+      content: revision.content,
+      createdAt: revision.createdAt.toISOString(),
+    })
+  );
 };
 
 /**
@@ -136,7 +848,41 @@ export const updatePost = async (
 export const deletePost = async (userId: number, postId: number) => {
   const result = await prisma.post.updateMany({
     where: { id: postId, userId, isDeleted: false },
-    data: { isDeleted: true },
+    data: { isDeleted: true, isPinned: false },
+  });
+  return result.count > 0;
+};
+
+/**
+ * Menyematkan postingan ke profil. Setiap user hanya boleh punya satu
+ * postingan yang di-pin, jadi pin lama dilepas dalam transaksi yang sama.
+ */
+export const pinPost = async (userId: number, postId: number) => {
+  const post = await prisma.post.findFirst({
+    where: { id: postId, userId, isDeleted: false, parentPostId: null },
+  });
+  if (!post) return false;
+
+  await prisma.$transaction([
+    prisma.post.updateMany({
+      where: { userId, isPinned: true, id: { not: postId } },
+      data: { isPinned: false },
+    }),
+    prisma.post.update({
+      where: { id: postId },
+      data: { isPinned: true },
+    }),
+  ]);
+  return true;
+};
+
+/**
+ * Melepas pin dari postingan milik sendiri.
+ */
+export const unpinPost = async (userId: number, postId: number) => {
+  const result = await prisma.post.updateMany({
+    where: { id: postId, userId, isPinned: true },
+    data: { isPinned: false },
   });
   return result.count > 0;
 };
@@ -145,7 +891,11 @@ export const deletePost = async (userId: number, postId: number) => {
  * Memberi atau menghapus 'like' dari sebuah postingan secara atomik.
  */
 export const toggleLikePost = async (userId: number, postId: number) => {
-  return prisma.$transaction(async (tx) => {
+  const post = await findVisiblePost(postId, userId);
+  if (!post) throw new Error("Post not found");
+
+  // true jika like ditambahkan, false jika dibatalkan
+  const liked = await prisma.$transaction(async (tx) => {
     const existingLike = await tx.like.findUnique({
       where: { userId_postId: { userId, postId } },
     });
@@ -166,12 +916,22 @@ export const toggleLikePost = async (userId: number, postId: number) => {
       return true;
     }
   });
+
+  if (liked) {
+    await NotificationService.notifyLike(post.userId, userId, postId);
+  } else {
+    await NotificationService.notifyUnlike(post.userId, postId);
+  }
+  return liked;
 };
 
 /**
  * Melakukan repost atau membatalkan repost (bukan quote post).
  */
 export const toggleRepost = async (userId: number, postId: number) => {
+  const post = await findVisiblePost(postId, userId);
+  if (!post) throw new Error("Post not found");
+
   return prisma.$transaction(async (tx) => {
     const existingRepost = await tx.repost.findFirst({
       where: { userId, postId, isQuotePost: false },
@@ -185,6 +945,10 @@ export const toggleRepost = async (userId: number, postId: number) => {
       });
       return false;
     } else {
+      // Postingan terbatas hanya boleh di-repost oleh penulisnya sendiri
+      if (post.visibility !== "public" && post.userId !== userId) {
+        throw new Error("Post cannot be reposted");
+      }
       await tx.repost.create({ data: { userId, postId, isQuotePost: false } });
       await tx.post.update({
         where: { id: postId },
@@ -196,27 +960,81 @@ export const toggleRepost = async (userId: number, postId: number) => {
 };
 
 /**
- * Membuat quote post (repost dengan komentar).
+ * Membuat quote post: postingan baru yang menyematkan postingan lain.
  */
 export const quotePost = async (
   userId: number,
   postId: number,
   data: CreateRepostRequest
 ) => {
-  const repost = await prisma.repost.create({
+  const quoted = await findVisiblePost(postId, userId);
+  if (!quoted) throw new Error("Post not found");
+  // Quote post menyematkan isi postingan ke audiens lain, jadi hanya
+  // postingan publik yang boleh dikutip
+  if (quoted.visibility !== "public") {
+    throw new Error("Post cannot be reposted");
+  }
+
+  const quote = await prisma.post.create({
     data: {
       userId,
-      postId,
-      quoteContent: data.quoteContent,
-      isQuotePost: true,
+      content: data.quoteContent || "",
+      visibility: data.visibility ?? "public",
+      quotedPostId: postId,
+      isDeleted: false,
     },
+    include: getPostInclude(userId),
   });
 
-  await prisma.post.update({
-    where: { id: postId },
-    data: { repostCount: { increment: 1 } },
+  await HashtagService.syncPostHashtags(quote.id, quote.content);
+  await syncPostMentions(quote.id, quote.content);
+  const linkPreview = await LinkPreviewService.attachToPost(
+    quote.id,
+    quote.content
+  );
+  await NotificationService.notify({
+    userId: quoted.userId,
+    actorId: userId,
+    type: "quote",
+    postId: quote.id,
   });
-  return repost;
+  await NotificationService.notifyMentions(userId, quote.id, quote.content, [
+    quoted.userId,
+  ]);
+
+  const [visibleQuote] = await hideUnavailableQuotes([quote], userId);
+  return transformPost({ ...visibleQuote, linkPreview });
+};
+
+/**
+ * Mengambil daftar quote post dari sebuah postingan.
+ */
+export const getPostQuotes = async (
+  postId: number,
+  query: PaginationQuery,
+  currentUserId?: number
+) => {
+  if (!(await findVisiblePost(postId, currentUserId))) return null;
+
+  const quotes = await prisma.post.findMany({
+    where: {
+      quotedPostId: postId,
+      isDeleted: false,
+      AND: [visiblePostWhere(currentUserId)],
+      ...createdAtCursorWhere(query.cursor),
+    },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    include: getPostInclude(currentUserId),
+    take: (query.limit ?? 20) + 1,
+    skip: getSkip(query),
+  });
+
+  return toPaginatedResponse(
+    await hideUnavailableQuotes(quotes, currentUserId),
+    { ...query, limit: query.limit ?? 20 },
+    createdAtCursor,
+    transformPost
+  );
 };
 
 /**
@@ -227,7 +1045,11 @@ export const addComment = async (
   postId: number,
   content: string
 ) => {
-  return prisma.$transaction(async (tx) => {
+  if (!(await findVisiblePost(postId, userId))) {
+    throw new Error("Post not found");
+  }
+
+  const comment = await prisma.$transaction(async (tx) => {
     const comment = await tx.comment.create({
       data: {
         userId,
@@ -241,38 +1063,188 @@ export const addComment = async (
       },
     });
 
-    await tx.post.update({
+    const post = await tx.post.update({
       where: { id: postId },
       data: { commentCount: { increment: 1 } },
     });
 
-    return {
-      id: comment.id,
-      content: comment.content,
-      user: comment.user,
-      createdAt: comment.createdAt.toISOString(),
-    };
+    return { ...comment, postAuthorId: post.userId };
   });
+
+  await NotificationService.notify({
+    userId: comment.postAuthorId,
+    actorId: userId,
+    type: "comment",
+    postId,
+    commentId: comment.id,
+  });
+
+  return {
+    id: comment.id,
+    content: comment.content,
+    user: comment.user,
+    createdAt: comment.createdAt.toISOString(),
+    isEdited: comment.isEdited,
+    likeCount: comment.likeCount,
+    isLiked: false,
+  };
 };
 
 /**
- * Mengambil semua komentar dari sebuah postingan.
+ * Mengambil komentar dari sebuah postingan dengan paginasi.
  */
-export const getPostComments = async (postId: number) => {
+export const getPostComments = async (
+  postId: number,
+  query: PaginationQuery,
+  currentUserId?: number
+) => {
+  if (!(await findVisiblePost(postId, currentUserId))) return null;
+
   const comments = await prisma.comment.findMany({
-    where: { postId, isDeleted: false },
-    orderBy: { createdAt: "asc" },
+    where: {
+      postId,
+      isDeleted: false,
+      user: notBlockedUserWhere(currentUserId),
+      ...createdAtCursorWhere(query.cursor, "asc"),
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
     include: {
       user: {
         select: userPublicSelect,
       },
+      likes: {
+        where: { userId: currentUserId },
+        select: { userId: true },
+      },
     },
+    take: (query.limit ?? 20) + 1,
+    skip: getSkip(query),
   });
 
-  return comments.map((comment) => ({
+  return KeywordFilterService.applyToPage(
+    currentUserId,
+    "replies",
+    toPaginatedResponse(
+      comments,
+      { ...query, limit: query.limit ?? 20 },
+      createdAtCursor,
+      (comment) => ({
+        id: comment.id,
+        content: comment.content || "No content", // Default jika null
+        user: comment.user,
+        createdAt: comment.createdAt.toISOString(),
+        updatedAt: comment.updatedAt?.toISOString() || null,
+        isEdited: comment.isEdited,
+        likeCount: comment.likeCount,
+        isLiked: comment.likes.length > 0,
+      })
+    )
+  );
+};
+
+/**
+ * Mengubah isi komentar milik sendiri.
+ */
+export const updateComment = async (
+  userId: number,
+  postId: number,
+  commentId: number,
+  content: string
+) => {
+  const result = await prisma.comment.updateMany({
+    where: { id: commentId, postId, userId, isDeleted: false },
+    data: { content: content.trim(), isEdited: true, updatedAt: new Date() },
+  });
+  if (result.count === 0) return null;
+
+  const comment = await prisma.comment.findUniqueOrThrow({
+    where: { id: commentId },
+    include: {
+      user: { select: userPublicSelect },
+      likes: { where: { userId }, select: { userId: true } },
+    },
+  });
+
+  return {
     id: comment.id,
-    content: comment.content || "No content", // Default jika null
+    content: comment.content,
     user: comment.user,
     createdAt: comment.createdAt.toISOString(),
-  }));
+    updatedAt: comment.updatedAt?.toISOString() || null,
+    isEdited: comment.isEdited,
+    likeCount: comment.likeCount,
+    isLiked: comment.likes.length > 0,
+  };
+};
+
+/**
+ * Menghapus komentar (Soft Delete). Boleh dilakukan oleh penulis komentar
+ * atau pemilik postingan.
+ */
+export const deleteComment = async (
+  userId: number,
+  postId: number,
+  commentId: number
+) => {
+  return prisma.$transaction(async (tx) => {
+    const result = await tx.comment.updateMany({
+      where: {
+        id: commentId,
+        postId,
+        isDeleted: false,
+        OR: [{ userId }, { post: { userId } }],
+      },
+      data: { isDeleted: true },
+    });
+
+    if (result.count === 0) return false;
+
+    await tx.post.update({
+      where: { id: postId },
+      data: { commentCount: { decrement: 1 } },
+    });
+    return true;
+  });
+};
+
+/**
+ * Memberi atau menghapus 'like' dari sebuah komentar secara atomik.
+ */
+export const toggleLikeComment = async (
+  userId: number,
+  postId: number,
+  commentId: number
+) => {
+  return prisma.$transaction(async (tx) => {
+    const comment = await tx.comment.findFirst({
+      where: {
+        id: commentId,
+        postId,
+        isDeleted: false,
+        user: notBlockedUserWhere(userId),
+        post: { isDeleted: false, AND: [visiblePostWhere(userId)] },
+      },
+    });
+    if (!comment) throw new Error("Comment not found");
+
+    const existingLike = await tx.commentLike.findUnique({
+      where: { userId_commentId: { userId, commentId } },
+    });
+
+    if (existingLike) {
+      await tx.commentLike.delete({ where: { id: existingLike.id } });
+      await tx.comment.update({
+        where: { id: commentId },
+        data: { likeCount: { decrement: 1 } },
+      });
+      return false;
+    } else {
+      await tx.commentLike.create({ data: { userId, commentId } });
+      await tx.comment.update({
+        where: { id: commentId },
+        data: { likeCount: { increment: 1 } },
+      });
+      return true;
+    }
+  });
 };
@@ -1,5 +1,20 @@
 // services/profile.service.ts
 import { prisma } from "../application/database"; // Sesuaikan dengan setup prisma Anda
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { FollowService } from "./follow.service";
+import { KeywordFilterService } from "./keyword-filter.service";
+import {
+  getPostInclude,
+  getVisiblePostIds,
+  hideUnavailableQuotes,
+  transformPost,
+  visiblePostWhere,
+} from "./post.service";
 
 
 export const getProfile = async (username: string) => {
@@ -16,6 +31,7 @@ export const getProfile = async (username: string) => {
         createdAt: true,
         isVerified: true,
         isActive: true,
+        isPrivate: true,
         _count: {
           select: {
             posts: {
@@ -40,6 +56,7 @@ export const getProfile = async (username: string) => {
       postsCount: user._count.posts,
       createdAt: user.createdAt,
       isVerified: user.isVerified,
+      isPrivate: user.isPrivate,
       isActive: user.isActive,
     };
   } catch (error) {
@@ -53,10 +70,14 @@ export const getProfilePosts = async (
   options: {
     tab: string;
     limit: number;
+    cursor?: string;
     offset?: number;
-  }
+  },
+  currentUserId?: number
 ) => {
-  const { tab, limit, offset = 0 } = options;
+  const { tab, limit, cursor } = options;
+  const skip = getSkip(options);
+  const take = limit + 1;
 
   const user = await prisma.user.findUnique({
     where: { username },
@@ -67,58 +88,97 @@ export const getProfilePosts = async (
     throw new Error("User not found");
   }
 
-  const baseInclude = {
-    user: {
-      select: {
-        id: true,
-        username: true,
-        displayName: true,
-        isVerified: true,
-      },
-    },
-    _count: {
-      select: {
-        likes: true,
-        comments: true,
-        reposts: true,
-      },
-    },
-  };
+  // Semua tab akun private hanya untuk follower yang sudah disetujui
+  await FollowService.assertCanViewAccount(user.id, currentUserId);
+
+  // Bentuk postingan sama dengan timeline: media, polling, link preview dan
+  // quote yang sudah lewat hideUnavailableQuotes
+  const baseInclude = getPostInclude(currentUserId);
+
+  const orderBy = [{ createdAt: "desc" as const }, { id: "desc" as const }];
+  // Hanya postingan yang boleh dilihat oleh user yang sedang membuka profil
+  const visible = visiblePostWhere(currentUserId);
 
   switch (tab) {
-    case "posts":
-      return prisma.post.findMany({
+    case "posts": {
+      const posts = await prisma.post.findMany({
         where: {
           userId: user.id,
           isDeleted: false,
+          isPinned: false, // Postingan yang di-pin ditampilkan terpisah di atas
           parentPostId: null, // Hanya posts utama, bukan replies
+          AND: [visible],
+          ...createdAtCursorWhere(cursor),
         },
         include: baseInclude,
-        orderBy: { createdAt: "desc" },
-        take: limit,
-        skip: offset,
+        orderBy,
+        take,
+        skip,
       });
+      const result = toPaginatedResponse(
+        await hideUnavailableQuotes(posts, currentUserId),
+        options,
+        createdAtCursor,
+        transformPost
+      );
+
+      // Postingan yang di-pin hanya muncul di halaman pertama
+      if (!cursor && skip === 0) {
+        const pinned = await prisma.post.findFirst({
+          where: {
+            userId: user.id,
+            isPinned: true,
+            isDeleted: false,
+            AND: [visible],
+          },
+          include: baseInclude,
+        });
+        if (pinned) {
+          const [visiblePinned] = await hideUnavailableQuotes(
+            [pinned],
+            currentUserId
+          );
+          result.data.unshift(transformPost(visiblePinned));
+        }
+      }
+      return KeywordFilterService.applyToPage(currentUserId, "home", result);
+    }
 
-    case "likes":
-      return prisma.post.findMany({
+    case "likes": {
+      const posts = await prisma.post.findMany({
         where: {
           likes: {
             some: { userId: user.id },
           },
           isDeleted: false,
+          AND: [visible],
+          ...createdAtCursorWhere(cursor),
         },
         include: baseInclude,
-        orderBy: { createdAt: "desc" },
-        take: limit,
-        skip: offset,
+        orderBy,
+        take,
+        skip,
       });
+      return KeywordFilterService.applyToPage(
+        currentUserId,
+        "home",
+        toPaginatedResponse(
+          await hideUnavailableQuotes(posts, currentUserId),
+          options,
+          createdAtCursor,
+          transformPost
+        )
+      );
+    }
 
-    case "replies":
-      return prisma.post.findMany({
+    case "replies": {
+      const posts = await prisma.post.findMany({
         where: {
           userId: user.id,
           parentPostId: { not: null }, // Post yang merupakan reply
           isDeleted: false,
+          AND: [visible],
+          ...createdAtCursorWhere(cursor),
         },
         include: {
           ...baseInclude,
@@ -135,52 +195,80 @@ export const getProfilePosts = async (
             },
           },
         },
-        orderBy: { createdAt: "desc" },
-        take: limit,
-        skip: offset,
+        orderBy,
+        take,
+        skip,
       });
 
-    case "reposts":
-      // Ambil posts yang di-repost oleh user ini
+      // Isi postingan induk disembunyikan jika tidak boleh dilihat
+      const visibleParentIds = await getVisiblePostIds(
+        posts.map((post) => post.parentPostId!),
+        currentUserId
+      );
+      return KeywordFilterService.applyToPage(
+        currentUserId,
+        "replies",
+        toPaginatedResponse(
+          await hideUnavailableQuotes(posts, currentUserId),
+          options,
+          createdAtCursor,
+          (post) => ({
+            ...transformPost(post),
+            parentPost: visibleParentIds.has(post.parentPostId!)
+              ? post.parentPost
+              : null,
+          })
+        )
+      );
+    }
+
+    case "reposts": {
+      // Ambil posts yang di-repost oleh user ini, cursor berdasarkan waktu repost.
+      // Quote post sudah menjadi postingan sendiri dan tampil di tab "posts".
       const reposts = await prisma.repost.findMany({
-        where: { userId: user.id },
+        where: {
+          userId: user.id,
+          isQuotePost: false,
+          post: { AND: [visible] },
+          ...createdAtCursorWhere(cursor),
+        },
         include: {
           post: {
-            include: {
-              user: {
-                select: {
-                  id: true,
-                  username: true,
-                  displayName: true,
-                  isVerified: true,
-                },
-              },
-              _count: {
-                select: {
-                  likes: true,
-                  comments: true,
-                  reposts: true,
-                },
-              },
-            },
+            include: baseInclude,
           },
         },
-        orderBy: { createdAt: "desc" },
-        take: limit,
-        skip: offset,
+        orderBy,
+        take,
+        skip,
       });
 
+      const repostedPosts = await hideUnavailableQuotes(
+        reposts.map((repost) => repost.post),
+        currentUserId
+      );
+
       // Transform data untuk menyesuaikan format response
-      return reposts.map((repost) => ({
-        ...repost.post,
-        repostedAt: repost.createdAt,
-        isQuotePost: repost.isQuotePost,
-        quoteContent: repost.quoteContent,
-        repostedBy: {
-          id: user.id,
-          username: username,
-        },
-      }));
+      return KeywordFilterService.applyToPage(
+        currentUserId,
+        "home",
+        toPaginatedResponse(
+          reposts.map((repost, index) => ({
+            ...repost,
+            post: repostedPosts[index],
+          })),
+          options,
+          createdAtCursor,
+          (repost) => ({
+            ...transformPost(repost.post),
+            repostedAt: repost.createdAt,
+            repostedBy: {
+              id: user.id,
+              username: username,
+            },
+          })
+        )
+      );
+    }
 
     default:
       throw new Error("Invalid tab parameter");
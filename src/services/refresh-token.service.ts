@@ -0,0 +1,127 @@
+// refresh-token.service.ts
+import { prisma } from "../application/database";
+import { generateToken, hashToken } from "../utils/token";
+
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export class RefreshTokenService {
+  /**
+   * Membuat refresh token pertama untuk sebuah sesi. Family token sama
+   * dengan id sesi (satu family untuk setiap login).
+   */
+  static async issue(userId: number, familyId: string) {
+    const refreshToken = generateToken();
+    await prisma.refreshToken.create({
+      data: {
+        tokenHash: hashToken(refreshToken),
+        familyId,
+        userId,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      },
+    });
+
+    return {
+      refreshToken,
+      refreshTokenExpiresIn: REFRESH_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Menukar refresh token dengan token baru dalam family yang sama. Token
+   * lama langsung tidak berlaku. Jika token yang sudah pernah dirotasi
+   * dipakai lagi, kemungkinan token itu dicuri, sehingga seluruh family
+   * dicabut dan pemilik sah maupun pencuri harus login ulang.
+   */
+  static async rotate(refreshToken: string) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+    });
+    if (!stored || stored.revokedAt || stored.expiresAt <= new Date()) {
+      throw new Error("Invalid refresh token");
+    }
+    if (stored.replacedAt) {
+      await RefreshTokenService.revokeFamily(stored.familyId);
+      throw new Error("Refresh token reuse detected");
+    }
+
+    const rotated = await prisma.$transaction(async (tx) => {
+      // Klaim kondisional: dari dua refresh bersamaan hanya satu yang menang
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: stored.id, replacedAt: null, revokedAt: null },
+        data: { replacedAt: new Date() },
+      });
+      if (claimed.count === 0) return null;
+
+      const next = generateToken();
+      const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+      await tx.refreshToken.create({
+        data: {
+          tokenHash: hashToken(next),
+          familyId: stored.familyId,
+          userId: stored.userId,
+          expiresAt,
+        },
+      });
+      await tx.session.update({
+        where: { id: stored.familyId },
+        data: { lastUsedAt: new Date(), expiresAt },
+      });
+      return next;
+    });
+
+    if (!rotated) {
+      await RefreshTokenService.revokeFamily(stored.familyId);
+      throw new Error("Refresh token reuse detected");
+    }
+
+    return {
+      userId: stored.userId,
+      familyId: stored.familyId,
+      refreshToken: rotated,
+      refreshTokenExpiresIn: REFRESH_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Mencabut seluruh family sekaligus sesinya, sehingga access token sesi
+   * itu juga langsung ditolak authMiddleware.
+   */
+  static async revokeFamily(familyId: string) {
+    const revokedAt = new Date();
+    await prisma.$transaction([
+      prisma.refreshToken.updateMany({
+        where: { familyId, revokedAt: null },
+        data: { revokedAt },
+      }),
+      prisma.session.updateMany({
+        where: { id: familyId, revokedAt: null },
+        data: { revokedAt },
+      }),
+    ]);
+  }
+
+  /**
+   * Logout: mencabut seluruh family dari token yang diberikan.
+   */
+  static async revoke(refreshToken: string) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      select: { familyId: true },
+    });
+    if (stored) await RefreshTokenService.revokeFamily(stored.familyId);
+  }
+
+  /**
+   * Menghapus token dan sesi yang sudah kedaluwarsa. Token yang sudah
+   * dirotasi atau dicabut tetap disimpan sampai kedaluwarsa agar pemakaian
+   * ulang masih bisa dideteksi.
+   */
+  static async cleanupExpired() {
+    const now = new Date();
+    const [tokens] = await prisma.$transaction([
+      prisma.refreshToken.deleteMany({ where: { expiresAt: { lt: now } } }),
+      prisma.session.deleteMany({ where: { expiresAt: { lt: now } } }),
+    ]);
+    return tokens.count;
+  }
+}
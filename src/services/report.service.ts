@@ -0,0 +1,296 @@
+// report.service.ts
+import { prisma } from "../application/database";
+import { PaginationQuery } from "../model/paging";
+import {
+  ReportPayload,
+  ReportResolutionAction,
+  ReportResponse,
+  ReportStatus,
+} from "../model/report.types";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { ModerationService, moderationUserSelect } from "./moderation.service";
+import { findVisiblePost } from "./post.service";
+
+// Laporan yang masih perlu ditangani moderator
+const PENDING_STATUSES: ReportStatus[] = ["open", "claimed"];
+
+const reportInclude = {
+  reporter: { select: moderationUserSelect },
+  reportedUser: { select: moderationUserSelect },
+  moderator: { select: moderationUserSelect },
+  post: {
+    select: { id: true, content: true, isDeleted: true, isHidden: true },
+  },
+  comment: { select: { id: true, content: true, isDeleted: true } },
+};
+
+const transformReport = (report: any): ReportResponse => ({
+  id: report.id,
+  targetType: report.targetType,
+  postId: report.postId,
+  commentId: report.commentId,
+  reason: report.reason,
+  details: report.details,
+  status: report.status,
+  reporter: report.reporter,
+  reportedUser: report.reportedUser,
+  moderator: report.moderator,
+  post: report.post,
+  comment: report.comment,
+  resolution: report.resolution,
+  claimedAt: report.claimedAt?.toISOString() ?? null,
+  closedAt: report.closedAt?.toISOString() ?? null,
+  createdAt: report.createdAt.toISOString(),
+});
+
+/**
+ * Mencari pemilik konten yang dilaporkan. Konten yang tidak boleh dilihat
+ * pelapor diperlakukan sama seperti tidak ada.
+ */
+const resolveTarget = async (reporterId: number, data: ReportPayload) => {
+  switch (data.targetType) {
+    case "post": {
+      const post = await findVisiblePost(data.targetId, reporterId);
+      if (!post) return null;
+      return { postId: post.id, reportedUserId: post.userId };
+    }
+    case "comment": {
+      const comment = await prisma.comment.findFirst({
+        where: { id: data.targetId, isDeleted: false },
+        select: { id: true, userId: true, postId: true },
+      });
+      if (!comment || !(await findVisiblePost(comment.postId, reporterId))) {
+        return null;
+      }
+      return {
+        postId: comment.postId,
+        commentId: comment.id,
+        reportedUserId: comment.userId,
+      };
+    }
+    case "user": {
+      const user = await prisma.user.findUnique({
+        where: { id: data.targetId },
+        select: { id: true },
+      });
+      return user ? { reportedUserId: user.id } : null;
+    }
+  }
+};
+
+export class ReportService {
+  /**
+   * Membuat laporan. Satu pelapor hanya bisa memiliki satu laporan yang
+   * belum ditangani untuk target yang sama.
+   */
+  static async createReport(reporterId: number, data: ReportPayload) {
+    const target = await resolveTarget(reporterId, data);
+    if (!target) throw new Error("Target not found");
+    if (target.reportedUserId === reporterId) {
+      throw new Error("Cannot report yourself");
+    }
+
+    const postId = target.postId ?? null;
+    const commentId = target.commentId ?? null;
+
+    const existing = await prisma.report.findFirst({
+      where: {
+        reporterId,
+        targetType: data.targetType,
+        reportedUserId: target.reportedUserId,
+        postId,
+        commentId,
+        status: { in: PENDING_STATUSES },
+      },
+      select: { id: true },
+    });
+    if (existing) throw new Error("Already reported");
+
+    const report = await prisma.report.create({
+      data: {
+        reporterId,
+        targetType: data.targetType,
+        postId,
+        commentId,
+        reportedUserId: target.reportedUserId,
+        reason: data.reason,
+        details: data.details || null,
+      },
+    });
+
+    return {
+      id: report.id,
+      targetType: data.targetType,
+      reason: data.reason,
+      status: report.status as ReportStatus,
+      createdAt: report.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Antrian laporan untuk moderator, dari yang terlama. Tanpa filter status
+   * hanya laporan yang belum ditangani (open dan claimed) yang ditampilkan.
+   */
+  static async getQueue(
+    filter: { status?: ReportStatus; moderatorId?: number },
+    query: PaginationQuery
+  ) {
+    const limit = query.limit ?? 20;
+    const reports = await prisma.report.findMany({
+      where: {
+        status: filter.status ?? { in: PENDING_STATUSES },
+        ...(filter.moderatorId && { moderatorId: filter.moderatorId }),
+        ...createdAtCursorWhere(query.cursor, "asc"),
+      },
+      include: reportInclude,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: limit + 1,
+      skip: getSkip({ ...query, limit }),
+    });
+
+    return toPaginatedResponse(
+      reports,
+      { ...query, limit },
+      createdAtCursor,
+      transformReport
+    );
+  }
+
+  static async getReport(reportId: number) {
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+      include: reportInclude,
+    });
+    return report ? transformReport(report) : null;
+  }
+
+  /**
+   * Mengambil laporan untuk ditangani. Laporan yang sudah di-claim
+   * moderator lain tidak bisa diambil alih.
+   */
+  static async claimReport(moderatorId: number, reportId: number) {
+    const result = await prisma.report.updateMany({
+      where: { id: reportId, status: "open" },
+      data: { status: "claimed", moderatorId, claimedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      const report = await prisma.report.findUnique({
+        where: { id: reportId },
+        select: { status: true, moderatorId: true },
+      });
+      if (!report) return null;
+      if (report.status !== "claimed") throw new Error("Report already closed");
+      if (report.moderatorId !== moderatorId) {
+        throw new Error("Report already claimed");
+      }
+    }
+
+    return ReportService.getReport(reportId);
+  }
+
+  /**
+   * Menyelesaikan laporan, opsional sekaligus menjalankan tindakan moderasi
+   * terhadap konten atau pemiliknya dalam transaksi yang sama.
+   */
+  static async resolveReport(
+    moderatorId: number,
+    reportId: number,
+    data: { reason: string; action?: ReportResolutionAction }
+  ) {
+    return ReportService.closeReport(moderatorId, reportId, "resolved", data);
+  }
+
+  static async dismissReport(
+    moderatorId: number,
+    reportId: number,
+    reason: string
+  ) {
+    return ReportService.closeReport(moderatorId, reportId, "dismissed", {
+      reason,
+    });
+  }
+
+  private static async closeReport(
+    moderatorId: number,
+    reportId: number,
+    status: "resolved" | "dismissed",
+    data: { reason: string; action?: ReportResolutionAction }
+  ) {
+    const closed = await prisma.$transaction(async (tx) => {
+      const report = await tx.report.findUnique({
+        where: { id: reportId },
+        select: {
+          id: true,
+          targetType: true,
+          postId: true,
+          reportedUserId: true,
+        },
+      });
+      if (!report) return false;
+
+      // Klaim ulang secara kondisional agar dua moderator tidak menutup
+      // laporan yang sama bersamaan
+      const result = await tx.report.updateMany({
+        where: {
+          id: reportId,
+          status: { in: PENDING_STATUSES },
+          OR: [{ moderatorId: null }, { moderatorId }],
+        },
+        data: {
+          status,
+          moderatorId,
+          resolution: data.reason,
+          closedAt: new Date(),
+        },
+      });
+      if (result.count === 0) {
+        const current = await tx.report.findUniqueOrThrow({
+          where: { id: reportId },
+          select: { status: true },
+        });
+        throw new Error(
+          current.status === "claimed"
+            ? "Report claimed by another moderator"
+            : "Report already closed"
+        );
+      }
+
+      if (data.action) {
+        if (data.action === "hide_post" && report.targetType !== "post") {
+          throw new Error("Action not applicable");
+        }
+        await ModerationService.applyAction(
+          tx,
+          moderatorId,
+          data.action,
+          {
+            userId: report.reportedUserId ?? undefined,
+            postId: report.postId ?? undefined,
+          },
+          data.reason,
+          report.id
+        );
+      }
+
+      await tx.moderationAction.create({
+        data: {
+          moderatorId,
+          action: status === "resolved" ? "resolve_report" : "dismiss_report",
+          targetUserId: report.reportedUserId,
+          postId: report.postId,
+          reportId: report.id,
+          reason: data.reason,
+        },
+      });
+      return true;
+    });
+
+    return closed ? ReportService.getReport(reportId) : null;
+  }
+}
@@ -1,24 +1,75 @@
 // search.service.ts
 import { prisma } from "../application/database";
+import { PaginationQuery } from "../model/paging";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  decodeCursor,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { notBlockedUserWhere } from "./block.service";
+import { KeywordFilterService } from "./keyword-filter.service";
+import {
+  getPostInclude,
+  hideUnavailableQuotes,
+  notMutedWhere,
+  transformPost,
+  visiblePostWhere,
+} from "./post.service";
+
+type UserSearchCursor = {
+  isVerified: boolean;
+  followerCount: number;
+  username: string;
+};
+
+// Melanjutkan urutan (isVerified desc, followerCount desc, username asc).
+const userSearchCursorWhere = (cursor?: string) => {
+  const payload = decodeCursor<UserSearchCursor>(cursor, {
+    isVerified: "boolean",
+    followerCount: "integer",
+    username: "string",
+  });
+  if (!payload) return {};
+
+  const { isVerified, followerCount, username } = payload;
+  return {
+    OR: [
+      ...(isVerified ? [{ isVerified: false }] : []),
+      { isVerified, followerCount: { lt: followerCount } },
+      { isVerified, followerCount, username: { gt: username } },
+    ],
+  };
+};
 
 export class SearchService {
-  static async searchUsers(query: string, limit: number = 10) {
-    return prisma.user.findMany({
+  static async searchUsers(
+    query: string,
+    pagination: PaginationQuery,
+    currentUserId?: number
+  ) {
+    const { limit = 10 } = pagination;
+    const users = await prisma.user.findMany({
       where: {
-        OR: [
-          {
-            username: {
-              contains: query,
-              mode: "insensitive",
+        ...userSearchCursorWhere(pagination.cursor),
+        ...notBlockedUserWhere(currentUserId),
+        AND: {
+          OR: [
+            {
+              username: {
+                contains: query,
+                mode: "insensitive",
+              },
             },
-          },
-          {
-            displayName: {
-              contains: query,
-              mode: "insensitive",
+            {
+              displayName: {
+                contains: query,
+                mode: "insensitive",
+              },
             },
-          },
-        ],
+          ],
+        },
       },
       select: {
         id: true,
@@ -29,51 +80,65 @@ export class SearchService {
         followingCount: true,
         isVerified: true,
       },
-      take: limit,
+      take: limit + 1,
+      skip: getSkip({ ...pagination, limit }),
       orderBy: [
         { isVerified: "desc" },
         { followerCount: "desc" },
         { username: "asc" },
       ],
     });
+
+    return toPaginatedResponse(users, { ...pagination, limit }, (user) => ({
+      isVerified: user.isVerified,
+      followerCount: user.followerCount,
+      username: user.username,
+    }));
   }
 
-  static async searchPosts(query: string, limit: number = 20) {
-    return prisma.post.findMany({
+  static async searchPosts(
+    query: string,
+    pagination: PaginationQuery,
+    currentUserId?: number
+  ) {
+    const { limit = 20 } = pagination;
+    const posts = await prisma.post.findMany({
       where: {
         content: {
           contains: query,
           mode: "insensitive",
         },
         isDeleted: false,
+        AND: [visiblePostWhere(currentUserId), notMutedWhere(currentUserId)],
+        ...createdAtCursorWhere(pagination.cursor),
       },
-      select: {
-        id: true,
-        content: true,
-        likeCount: true,
-        commentCount: true,
-        repostCount: true,
-        createdAt: true,
-        updatedAt: true,
-        isEdited: true,
-        isPinned: true,
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            isVerified: true,
-          },
-        },
-      },
-      take: limit,
-      orderBy: [{ createdAt: "desc" }],
+      // Bentuk postingan sama dengan timeline, termasuk media dan polling
+      include: getPostInclude(currentUserId),
+      take: limit + 1,
+      skip: getSkip({ ...pagination, limit }),
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
     });
+
+    return KeywordFilterService.applyToPage(
+      currentUserId,
+      "search",
+      toPaginatedResponse(
+        await hideUnavailableQuotes(posts, currentUserId),
+        { ...pagination, limit },
+        createdAtCursor,
+        transformPost
+      )
+    );
   }
 
-  static async getSearchSuggestions(query: string, limit: number = 5) {
+  static async getSearchSuggestions(
+    query: string,
+    limit: number = 5,
+    currentUserId?: number
+  ) {
     const users = await prisma.user.findMany({
       where: {
+        ...notBlockedUserWhere(currentUserId),
         OR: [
           {
             username: {
@@ -0,0 +1,127 @@
+// session.service.ts
+import { randomUUID } from "node:crypto";
+import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
+import { SessionClientInfo, SessionResponse } from "../model/auth.types";
+import { describeUserAgent } from "../utils/user-agent";
+import {
+  REFRESH_TOKEN_TTL_SECONDS,
+  RefreshTokenService,
+} from "./refresh-token.service";
+
+// lastUsedAt diperbarui paling sering sekali per interval ini, bukan di
+// setiap request
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+const transformSession = (
+  session: any,
+  currentSessionId?: string
+): SessionResponse => ({
+  id: session.id,
+  device: describeUserAgent(session.userAgent),
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  isCurrent: session.id === currentSessionId,
+  createdAt: session.createdAt.toISOString(),
+  lastUsedAt: session.lastUsedAt.toISOString(),
+});
+
+export class SessionService {
+  /**
+   * Membuat sesi untuk satu login beserta refresh token pertamanya.
+   */
+  static async start(userId: number, client: SessionClientInfo) {
+    const session = await prisma.session.create({
+      data: {
+        id: randomUUID(),
+        userId,
+        userAgent: client.userAgent,
+        ipAddress: client.ipAddress,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      },
+    });
+
+    const { refreshToken, refreshTokenExpiresIn } =
+      await RefreshTokenService.issue(userId, session.id);
+
+    return { sessionId: session.id, refreshToken, refreshTokenExpiresIn };
+  }
+
+  /**
+   * Sesi yang masih aktif milik user, terakhir dipakai lebih dulu. Sesi
+   * yang sedang dipakai request ini ditandai isCurrent.
+   */
+  static async getSessions(userId: number, currentSessionId?: string) {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: [{ lastUsedAt: "desc" }, { id: "asc" }],
+    });
+    return sessions.map((session) =>
+      transformSession(session, currentSessionId)
+    );
+  }
+
+  /**
+   * Logout dari satu perangkat. Mengembalikan false jika sesi tidak ada,
+   * milik user lain, atau sudah tidak aktif.
+   */
+  static async revokeSession(userId: number, sessionId: string) {
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId, revokedAt: null },
+      select: { id: true },
+    });
+    if (!session) return false;
+
+    await RefreshTokenService.revokeFamily(session.id);
+    return true;
+  }
+
+  /**
+   * Logout dari semua perangkat lain selain sesi yang sedang dipakai.
+   * Mengembalikan jumlah sesi yang dicabut.
+   */
+  static async revokeOtherSessions(userId: number, currentSessionId: string) {
+    const revokedAt = new Date();
+    const [sessions] = await prisma.$transaction([
+      prisma.session.updateMany({
+        where: { userId, id: { not: currentSessionId }, revokedAt: null },
+        data: { revokedAt },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { userId, familyId: { not: currentSessionId }, revokedAt: null },
+        data: { revokedAt },
+      }),
+    ]);
+    return sessions.count;
+  }
+
+  /**
+   * Mencabut semua sesi user di dalam transaksi yang diberikan, misalnya
+   * setelah reset password atau penangguhan akun.
+   */
+  static async revokeAll(tx: Prisma.TransactionClient, userId: number) {
+    const revokedAt = new Date();
+    await tx.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt },
+    });
+    await tx.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt },
+    });
+  }
+
+  /**
+   * Mencatat pemakaian sesi oleh access token. Pembaruan dibatasi agar
+   * tidak ada penulisan ke database di setiap request.
+   */
+  static async touch(sessionId: string, lastUsedAt: Date) {
+    if (Date.now() - lastUsedAt.getTime() < LAST_USED_UPDATE_INTERVAL_MS) {
+      return;
+    }
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+}
@@ -0,0 +1,246 @@
+// two-factor.service.ts
+import bcrypt from "bcrypt";
+import { randomBytes } from "node:crypto";
+import { prisma } from "../application/database";
+import { Prisma } from "../generated/prisma";
+import { hashToken } from "../utils/token";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  otpauthUri,
+  verifyTotp,
+} from "../utils/totp";
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Twist";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Setelah sekian kode salah berturut-turut, verifikasi dikunci sementara
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Kode cadangan: 10 karakter base32 huruf kecil, ditampilkan "xxxxx-xxxxx"
+const generateRecoveryCode = () => {
+  const code = base32Encode(randomBytes(8)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+export class TwoFactorService {
+  static async isEnabled(userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    });
+    return !!user?.totpEnabledAt;
+  }
+
+  /**
+   * Membuat secret baru yang belum aktif sampai dikonfirmasi dengan kode
+   * dari aplikasi authenticator. Enrol ulang sebelum konfirmasi mengganti
+   * secret sebelumnya.
+   */
+  static async enroll(userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, totpEnabledAt: true },
+    });
+    if (!user) throw new Error("User not found");
+    if (user.totpEnabledAt) throw new Error("2FA already enabled");
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    });
+
+    return { secret, otpauthUri: otpauthUri(secret, user.email, TOTP_ISSUER) };
+  }
+
+  /**
+   * Mengaktifkan 2FA setelah kode pertama dari authenticator cocok, dan
+   * mengembalikan kode cadangan. Kode cadangan hanya ditampilkan sekali ini.
+   */
+  static async confirm(userId: number, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+    if (!user) throw new Error("User not found");
+    if (user.totpEnabledAt) throw new Error("2FA already enabled");
+    if (!user.totpSecret) throw new Error("2FA not enrolled");
+
+    if (!(await TwoFactorService.verifyCode(userId, code, false))) {
+      throw new Error("Invalid code");
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: { totpEnabledAt: new Date() },
+      });
+      return TwoFactorService.replaceRecoveryCodes(tx, userId);
+    });
+  }
+
+  /**
+   * Menonaktifkan 2FA. Butuh password dan kode TOTP atau kode cadangan
+   * agar sesi yang dicuri saja tidak cukup untuk mematikannya.
+   */
+  static async disable(userId: number, password: string, code: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { passwordHash: true, totpEnabledAt: true },
+    });
+    if (!user) throw new Error("User not found");
+    if (!user.totpEnabledAt) throw new Error("2FA not enabled");
+
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      throw new Error("Invalid password");
+    }
+    if (!(await TwoFactorService.verifyCode(userId, code))) {
+      throw new Error("Invalid code");
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+        },
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  /**
+   * Mengganti semua kode cadangan, misalnya saat hampir habis. Kode lama
+   * langsung tidak berlaku.
+   */
+  static async regenerateRecoveryCodes(userId: number, code: string) {
+    if (!(await TwoFactorService.isEnabled(userId))) {
+      throw new Error("2FA not enabled");
+    }
+    if (!(await TwoFactorService.verifyCode(userId, code, false))) {
+      throw new Error("Invalid code");
+    }
+    return prisma.$transaction((tx) =>
+      TwoFactorService.replaceRecoveryCodes(tx, userId)
+    );
+  }
+
+  /**
+   * Status 2FA beserta jumlah kode cadangan yang belum dipakai.
+   */
+  static async getStatus(userId: number) {
+    const [user, remainingRecoveryCodes] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { totpEnabledAt: true },
+      }),
+      prisma.recoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+    return {
+      enabled: !!user?.totpEnabledAt,
+      enabledAt: user?.totpEnabledAt?.toISOString() ?? null,
+      remainingRecoveryCodes,
+    };
+  }
+
+  /**
+   * Memeriksa kode TOTP, atau kode cadangan jika allowRecoveryCode. Kode
+   * TOTP yang sudah dipakai tidak bisa dipakai lagi dan kode cadangan
+   * ditandai terpakai. Kode salah berturut-turut mengunci verifikasi
+   * sementara (error "Too many attempts").
+   */
+  static async verifyCode(
+    userId: number,
+    code: string,
+    allowRecoveryCode = true
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpLockedUntil: true },
+    });
+    if (!user?.totpSecret) return false;
+    if (user.totpLockedUntil && user.totpLockedUntil > new Date()) {
+      throw new Error("Too many attempts");
+    }
+
+    const trimmed = code.trim();
+    let valid = false;
+
+    const step = verifyTotp(base32Decode(user.totpSecret), trimmed);
+    if (step !== null) {
+      // Klaim kondisional: kode yang sama tidak bisa dipakai dua kali,
+      // termasuk oleh dua request bersamaan
+      const claimed = await prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { totpLastUsedStep: null },
+            { totpLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { totpLastUsedStep: step },
+      });
+      valid = claimed.count > 0;
+    } else if (allowRecoveryCode) {
+      const used = await prisma.recoveryCode.updateMany({
+        where: {
+          userId,
+          codeHash: hashToken(normalizeRecoveryCode(trimmed)),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+      valid = used.count > 0;
+    }
+
+    if (valid) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { totpFailedAttempts: 0, totpLockedUntil: null },
+      });
+      return true;
+    }
+
+    const failed = await prisma.user.update({
+      where: { id: userId },
+      data: { totpFailedAttempts: { increment: 1 } },
+      select: { totpFailedAttempts: true },
+    });
+    if (failed.totpFailedAttempts >= MAX_FAILED_ATTEMPTS) {
+      await prisma.user.update({
+        where: { id: userId },
+        data: {
+          totpFailedAttempts: 0,
+          totpLockedUntil: new Date(Date.now() + LOCKOUT_MS),
+        },
+      });
+    }
+    return false;
+  }
+
+  private static async replaceRecoveryCodes(
+    tx: Prisma.TransactionClient,
+    userId: number
+  ) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode()
+    );
+    await tx.recoveryCode.deleteMany({ where: { userId } });
+    await tx.recoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+      })),
+    });
+    return { recoveryCodes: codes };
+  }
+}
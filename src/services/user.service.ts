@@ -1,24 +1,45 @@
 import { prisma } from "../application/database";
 import {
+  AdminUserView,
   UpdateProfileRequest,
   UserProfile,
-  PaginationQuery,
+  UserRole,
   UserSettingsRequest,
   UserSearchResult,
   SearchUsersQuery,
 } from "../model/user.types"; // Pastikan path ini benar
+import { PaginatedResponse, PaginationQuery } from "../model/paging";
+import {
+  createdAtCursor,
+  createdAtCursorWhere,
+  getSkip,
+  toPaginatedResponse,
+} from "../utils/pagination";
+import { notBlockedUserWhere } from "./block.service";
+import { EmailVerificationService } from "./email-verification.service";
+import { FollowService } from "./follow.service";
+import { NotificationService } from "./notification.service";
 
 // Objek select standar untuk data user yang aman dan bersifat publik.
 const userPublicSelect = {
   id: true,
   username: true,
-  email: true,
   displayName: true,
   bio: true,
   followerCount: true,
   followingCount: true,
   createdAt: true,
   isVerified: true,
+  isPrivate: true,
+};
+
+// Data tambahan yang hanya boleh dilihat admin
+const adminUserSelect = {
+  ...userPublicSelect,
+  email: true,
+  role: true,
+  isActive: true,
+  lastLogin: true,
 };
 
 export class UserService {
@@ -52,25 +73,67 @@ export class UserService {
   }
 
   /**
-   * Memperbarui profil pengguna yang sedang login.
+   * Memperbarui profil pengguna yang sedang login. Email baru tidak langsung
+   * dipakai: alamat itu disimpan sebagai pendingEmail dan baru menggantikan
+   * email akun setelah link verifikasinya dibuka.
    */
   static async updateProfile(
     userId: number,
     data: UpdateProfileRequest
-  ): Promise<UserProfile> {
+  ): Promise<UserProfile & { verificationSent?: boolean }> {
+    const { displayName, username, bio, email } = data;
+
+    const current = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true, pendingEmail: true },
+    });
+    const emailChanged =
+      email !== undefined &&
+      email !== current.email &&
+      email !== current.pendingEmail;
+
+    if (emailChanged) {
+      const taken = await prisma.user.findUnique({
+        where: { email },
+        select: { id: true },
+      });
+      if (taken) throw new Error("Username atau email sudah digunakan");
+    }
+
+    let updatedUser;
     try {
-      const updatedUser = await prisma.user.update({
+      updatedUser = await prisma.user.update({
         where: { id: userId },
-        data,
-        select: userPublicSelect,
+        data: {
+          displayName,
+          username,
+          bio,
+          // Mengisi kembali email lama membatalkan perubahan yang tertunda
+          ...(email === current.email && { pendingEmail: null }),
+          ...(emailChanged && { pendingEmail: email }),
+        },
+        select: { ...userPublicSelect, email: true, pendingEmail: true },
       });
-      return updatedUser;
     } catch (err: any) {
       if (err.code === "P2002") {
         throw new Error("Username atau email sudah digunakan");
       }
       throw err;
     }
+
+    if (!emailChanged) return updatedUser;
+
+    // Jika masih dalam cooldown, user bisa meminta kirim ulang nanti
+    let verificationSent = true;
+    try {
+      await EmailVerificationService.sendVerification(userId);
+    } catch (error: any) {
+      verificationSent = false;
+      if (error.message !== "Too many requests") {
+        console.error("Error sending verification email:", error);
+      }
+    }
+    return { ...updatedUser, verificationSent };
   }
 
   /**
@@ -96,47 +159,63 @@ export class UserService {
   }
 
   /**
-   * Mengambil daftar followers dengan paginasi.
+   * Mengambil daftar followers dengan paginasi cursor atau page.
    */
-  static async getFollowers(userId: number, pagination: PaginationQuery) {
-    const { page = 1, limit = 20 } = pagination;
-    const skip = (page - 1) * limit;
+  static async getFollowers(
+    userId: number,
+    pagination: PaginationQuery
+  ): Promise<PaginatedResponse<UserProfile>> {
+    const { limit = 20 } = pagination;
     const whereClause = { followingId: userId };
 
     const [followers, total] = await prisma.$transaction([
       prisma.follower.findMany({
-        where: whereClause,
+        where: { ...whereClause, ...createdAtCursorWhere(pagination.cursor) },
         include: { follower: { select: userPublicSelect } },
-        take: limit,
-        skip: skip,
-        orderBy: { createdAt: "desc" },
+        take: limit + 1,
+        skip: getSkip({ ...pagination, limit }),
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
       }),
       prisma.follower.count({ where: whereClause }),
     ]);
 
-    return { data: followers.map((f) => f.follower), total };
+    const result = toPaginatedResponse(
+      followers,
+      { ...pagination, limit },
+      createdAtCursor,
+      (f) => f.follower
+    );
+    return { ...result, pagination: { ...result.pagination, total } };
   }
 
   /**
-   * Mengambil daftar orang yang di-follow dengan paginasi.
+   * Mengambil daftar orang yang di-follow dengan paginasi cursor atau page.
    */
-  static async getFollowing(userId: number, pagination: PaginationQuery) {
-    const { page = 1, limit = 20 } = pagination;
-    const skip = (page - 1) * limit;
+  static async getFollowing(
+    userId: number,
+    pagination: PaginationQuery
+  ): Promise<PaginatedResponse<UserProfile>> {
+    const { limit = 20 } = pagination;
     const whereClause = { userId: userId };
 
     const [following, total] = await prisma.$transaction([
       prisma.follower.findMany({
-        where: whereClause,
+        where: { ...whereClause, ...createdAtCursorWhere(pagination.cursor) },
         include: { following: { select: userPublicSelect } },
-        take: limit,
-        skip: skip,
-        orderBy: { createdAt: "desc" },
+        take: limit + 1,
+        skip: getSkip({ ...pagination, limit }),
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
       }),
       prisma.follower.count({ where: whereClause }),
     ]);
 
-    return { data: following.map((f) => f.following), total };
+    const result = toPaginatedResponse(
+      following,
+      { ...pagination, limit },
+      createdAtCursor,
+      (f) => f.following
+    );
+    return { ...result, pagination: { ...result.pagination, total } };
   }
 
   /**
@@ -194,6 +273,12 @@ export class UserService {
         data: { followerCount: { increment: 1 } },
       }),
     ]);
+
+    await NotificationService.notify({
+      userId: followingId,
+      actorId: userId,
+      type: "follow",
+    });
   }
 
   /**
@@ -225,9 +310,8 @@ export class UserService {
   }
 
   /**
-   * Memperbarui pengaturan pengguna.
-   * Note: Berdasarkan skema, field 'isPrivate' tidak ada.
-   * Fungsi ini akan meng-handle field yang ada di UserSettingsRequest.
+   * Memperbarui pengaturan pengguna. Saat akun private diubah menjadi
+   * publik, semua permintaan follow yang pending langsung disetujui.
    */
   static async updateSettings(
     userId: number,
@@ -238,18 +322,27 @@ export class UserService {
       data: {
         displayName: data.displayName,
         bio: data.bio,
-        email: data.email,
-        // Anda bisa menambahkan field lain di sini jika ada di skema
+        isPrivate: data.isPrivate,
       },
     });
+
+    if (data.isPrivate === false) {
+      await FollowService.approveAllRequests(userId);
+    }
   }
 
   /**
    * Mengambil daftar pengguna yang disarankan (misal, paling populer).
    */
-  static async getSuggestions(): Promise<UserSearchResult[]> {
+  static async getSuggestions(
+    currentUserId?: number
+  ): Promise<UserSearchResult[]> {
     return prisma.user.findMany({
-      where: { isActive: true },
+      where: {
+        isActive: true,
+        ...notBlockedUserWhere(currentUserId),
+        ...(currentUserId && { id: { not: currentUserId } }),
+      },
       orderBy: { followerCount: "desc" },
       select: {
         id: true,
@@ -261,19 +354,21 @@ export class UserService {
   }
 
   /**
-   * Mengambil daftar semua pengguna dengan paginasi (untuk admin).
+   * Mengambil daftar semua pengguna dengan paginasi (untuk admin), termasuk
+   * email dan akun yang ditangguhkan.
    */
   static async getAllUsers(
-    pagination: PaginationQuery
-  ): Promise<{ data: UserProfile[]; total: number }> {
+    pagination: PaginationQuery,
+    filter: { role?: UserRole } = {}
+  ): Promise<{ data: AdminUserView[]; total: number }> {
     const { page = 1, limit = 20 } = pagination;
     const skip = (page - 1) * limit;
-    const whereClause = { isActive: true };
+    const whereClause = filter.role ? { role: filter.role } : {};
 
     const [users, total] = await prisma.$transaction([
       prisma.user.findMany({
         where: whereClause,
-        select: userPublicSelect,
+        select: adminUserSelect,
         take: limit,
         skip: skip,
         orderBy: { createdAt: "desc" },
@@ -281,6 +376,30 @@ export class UserService {
       prisma.user.count({ where: whereClause }),
     ]);
 
-    return { data: users, total };
+    return { data: users as AdminUserView[], total };
+  }
+
+  /**
+   * Mengubah role user. Admin tidak bisa mengubah role dirinya sendiri agar
+   * sistem tidak kehilangan admin terakhir secara tidak sengaja.
+   */
+  static async updateRole(
+    adminId: number,
+    userId: number,
+    role: UserRole
+  ): Promise<AdminUserView | null> {
+    if (adminId === userId) throw new Error("Cannot change your own role");
+
+    const result = await prisma.user.updateMany({
+      where: { id: userId },
+      data: { role },
+    });
+    if (result.count === 0) return null;
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: adminUserSelect,
+    });
+    return user as AdminUserView;
   }
 }
@@ -0,0 +1,5 @@
+/**
+ * Memeriksa apakah nilai adalah string tanggal yang valid di masa depan.
+ */
+export const isFutureDate = (value: unknown) =>
+  typeof value === "string" && new Date(value).getTime() > Date.now();
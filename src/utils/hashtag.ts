@@ -0,0 +1,24 @@
+// Hashtag diawali '#' dan tidak menempel pada kata sebelumnya (mis. "a#b").
+const HASHTAG_REGEX = /(^|[^\w#&])#(\w{1,100})/g;
+
+/**
+ * Menormalisasi hashtag: tanpa '#', lowercase.
+ */
+export const normalizeHashtag = (tag: string) => {
+  return tag.replace(/^#/, "").normalize("NFKC").toLowerCase();
+};
+
+/**
+ * Mengambil daftar hashtag unik (sudah dinormalisasi) dari konten postingan.
+ * Hashtag yang hanya berisi angka (mis. "#1") diabaikan.
+ */
+export const extractHashtags = (content: string) => {
+  const tags = new Set<string>();
+  const regex = new RegExp(HASHTAG_REGEX.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    const tag = normalizeHashtag(match[2]);
+    if (!/^\d+$/.test(tag)) tags.add(tag);
+  }
+  return Array.from(tags);
+};
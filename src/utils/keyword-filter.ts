@@ -0,0 +1,65 @@
+// Batas kata: huruf, angka, dan '_' dianggap bagian dari kata
+const WORD_CHAR = "[\\p{L}\\p{N}_]";
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Merapikan keyword: lowercase, trim, dan spasi ganda dijadikan satu.
+ */
+export const normalizeKeyword = (keyword: string) =>
+  keyword.trim().toLowerCase().replace(/\s+/g, " ");
+
+const toPattern = (keyword: string) =>
+  escapeRegex(keyword).replace(/ /g, "\\s+");
+
+export type KeywordMatcher = (text: string) => string[];
+
+/**
+ * Menggabungkan semua keyword menjadi (paling banyak) dua regex, satu untuk
+ * pencocokan kata utuh dan satu untuk substring, sehingga satu teks cukup
+ * dipindai sekali walaupun jumlah filter ratusan. Mengembalikan daftar
+ * keyword yang cocok.
+ */
+export const compileKeywordMatcher = (
+  filters: { keyword: string; wholeWord: boolean }[]
+): KeywordMatcher => {
+  if (filters.length === 0) return () => [];
+
+  // Keyword yang lebih panjang dicoba lebih dulu agar frasa tidak kalah
+  // oleh keyword yang merupakan awalannya
+  const byLength = (a: string, b: string) => b.length - a.length;
+  const whole = filters
+    .filter((f) => f.wholeWord)
+    .map((f) => f.keyword)
+    .sort(byLength);
+  const partial = filters
+    .filter((f) => !f.wholeWord)
+    .map((f) => f.keyword)
+    .sort(byLength);
+
+  const regexes: RegExp[] = [];
+  if (whole.length) {
+    regexes.push(
+      new RegExp(
+        `(?<!${WORD_CHAR})(${whole.map(toPattern).join("|")})(?!${WORD_CHAR})`,
+        "giu"
+      )
+    );
+  }
+  if (partial.length) {
+    regexes.push(new RegExp(`(${partial.map(toPattern).join("|")})`, "giu"));
+  }
+
+  return (text: string) => {
+    const matched = new Set<string>();
+    for (const regex of regexes) {
+      regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(text)) !== null) {
+        matched.add(normalizeKeyword(match[1]));
+      }
+    }
+    return Array.from(matched);
+  };
+};
@@ -0,0 +1,91 @@
+import { BlockList, isIP } from "node:net";
+
+const URL_REGEX = /https?:\/\/[^\s<>"']+/i;
+
+/**
+ * Mengambil URL http(s) pertama dari konten postingan, tanpa tanda baca
+ * penutup kalimat di belakangnya.
+ */
+export const extractFirstUrl = (content: string) => {
+  const match = content.match(URL_REGEX);
+  if (!match) return null;
+
+  const url = match[0].replace(/[.,;:!?)\]}]+$/, "");
+  try {
+    return new URL(url).toString();
+  } catch {
+    return null;
+  }
+};
+
+// [alamat awal, panjang prefix]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local (termasuk metadata cloud)
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // dokumentasi (TEST-NET-1)
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // dokumentasi (TEST-NET-2)
+  ["203.0.113.0", 24], // dokumentasi (TEST-NET-3)
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved + broadcast
+];
+
+const BLOCKED_IPV6_RANGES: [string, number][] = [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["100::", 64], // discard-only
+  ["2001:db8::", 32], // dokumentasi
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["fec0::", 10], // site-local (deprecated)
+  ["ff00::", 8], // multicast
+];
+
+// Rentang IPv6 yang membawa alamat IPv4 di dalamnya. Diblokir seluruhnya
+// karena alamat IPv4 tujuannya bisa saja private. Disimpan terpisah: di
+// BlockList, subnet ::ffff:0:0/96 juga cocok dengan semua alamat IPv4 biasa.
+const EMBEDDED_IPV4_RANGES: [string, number][] = [
+  ["::ffff:0:0", 96], // IPv4-mapped
+  ["::", 96], // IPv4-compatible (deprecated)
+  ["64:ff9b::", 96], // NAT64
+  ["64:ff9b:1::", 48], // NAT64 lokal
+  ["2001::", 32], // Teredo
+  ["2002::", 16], // 6to4
+];
+
+const privateRanges = new BlockList();
+for (const [address, prefix] of BLOCKED_IPV4_RANGES) {
+  privateRanges.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of BLOCKED_IPV6_RANGES) {
+  privateRanges.addSubnet(address, prefix, "ipv6");
+}
+
+const embeddedIpv4Ranges = new BlockList();
+for (const [address, prefix] of EMBEDDED_IPV4_RANGES) {
+  embeddedIpv4Ranges.addSubnet(address, prefix, "ipv6");
+}
+
+/**
+ * Mengecek apakah alamat IP termasuk private, loopback, link-local, atau
+ * rentang lain yang tidak boleh diakses dari server (mencegah SSRF).
+ * Alamat dibandingkan secara numerik, jadi penulisan seperti
+ * ::ffff:7f00:1 atau [::ffff:127.0.0.1] dari parser URL tetap terdeteksi.
+ */
+export const isPrivateAddress = (ip: string) => {
+  const address = ip.replace(/^\[|\]$/g, "");
+  const version = isIP(address);
+  if (version === 4) return privateRanges.check(address, "ipv4");
+  if (version !== 6) return true;
+
+  return (
+    embeddedIpv4Ranges.check(address, "ipv6") ||
+    privateRanges.check(address, "ipv6")
+  );
+};
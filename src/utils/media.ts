@@ -0,0 +1,131 @@
+export const ALLOWED_MEDIA_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+
+// Brand ISO-BMFF yang berarti MP4. File lain dengan box "ftyp" (MOV "qt  ",
+// HEIC "heic"/"mif1", AVIF, 3GP, ...) tidak dianggap MP4.
+const MP4_BRANDS = [
+  "isom",
+  "iso2",
+  "iso3",
+  "iso4",
+  "iso5",
+  "iso6",
+  "mp41",
+  "mp42",
+  "avc1",
+  "dash",
+];
+
+// Jumlah byte awal file yang cukup untuk mengenali semua tipe di atas
+export const MIME_SNIFF_BYTES = 64;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+/**
+ * Menentukan MIME type dari isi file (magic bytes), bukan dari header
+ * yang dikirim client.
+ */
+export const detectMimeType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (
+    ascii(bytes, 4, 8) === "ftyp" &&
+    MP4_BRANDS.includes(ascii(bytes, 8, 12))
+  ) {
+    return "video/mp4";
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  return null;
+};
+
+/**
+ * Membaca lebar dan tinggi gambar dari header file.
+ * Mengembalikan null untuk video atau format yang tidak dikenali.
+ */
+export const getImageDimensions = (
+  bytes: Uint8Array,
+  mimeType: string
+): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    switch (mimeType) {
+      case "image/png":
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+
+      case "image/gif":
+        return {
+          width: view.getUint16(6, true),
+          height: view.getUint16(8, true),
+        };
+
+      case "image/webp": {
+        const chunk = ascii(bytes, 12, 16);
+        if (chunk === "VP8 ") {
+          return {
+            width: view.getUint16(26, true) & 0x3fff,
+            height: view.getUint16(28, true) & 0x3fff,
+          };
+        }
+        if (chunk === "VP8L") {
+          const bits = view.getUint32(21, true);
+          return {
+            width: (bits & 0x3fff) + 1,
+            height: ((bits >> 14) & 0x3fff) + 1,
+          };
+        }
+        if (chunk === "VP8X") {
+          const width = view.getUint32(24, true) & 0xffffff;
+          const height = view.getUint32(27, true) & 0xffffff;
+          return { width: width + 1, height: height + 1 };
+        }
+        return null;
+      }
+
+      case "image/jpeg": {
+        // Cari marker SOF (Start Of Frame) yang menyimpan ukuran gambar
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+          if (bytes[offset] !== 0xff) return null;
+          const marker = bytes[offset + 1];
+          const length = view.getUint16(offset + 2);
+          const isSof =
+            marker >= 0xc0 &&
+            marker <= 0xcf &&
+            marker !== 0xc4 &&
+            marker !== 0xc8 &&
+            marker !== 0xcc;
+          if (isSof) {
+            return {
+              height: view.getUint16(offset + 5),
+              width: view.getUint16(offset + 7),
+            };
+          }
+          offset += 2 + length;
+        }
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+};
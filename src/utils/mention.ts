@@ -0,0 +1,15 @@
+// Mention diawali '@' dan tidak menempel pada kata sebelumnya (mis. email).
+const MENTION_REGEX = /(^|[^\w@])@(\w{1,50})/g;
+
+/**
+ * Mengambil daftar username unik yang di-mention dalam sebuah konten.
+ */
+export const extractMentions = (content: string) => {
+  const usernames = new Set<string>();
+  const regex = new RegExp(MENTION_REGEX.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    usernames.add(match[2]);
+  }
+  return Array.from(usernames);
+};
@@ -0,0 +1,169 @@
+import { Context } from "hono";
+import { PaginatedResponse, PaginationQuery } from "../model/paging";
+
+export type CursorPayload = Record<string, string | number | boolean>;
+
+/**
+ * Cursor dikirim ke client sebagai string base64url yang opaque.
+ */
+export const encodeCursor = (payload: CursorPayload) => {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+};
+
+type CursorFieldType = "boolean" | "date" | "integer" | "string";
+
+// Tipe setiap field cursor, dipakai untuk memeriksa cursor dari client
+export type CursorShape<T> = { [K in keyof T]: CursorFieldType };
+
+const isCursorField = (value: unknown, type: CursorFieldType) => {
+  switch (type) {
+    case "boolean":
+      return typeof value === "boolean";
+    case "integer":
+      return Number.isSafeInteger(value);
+    case "string":
+      return typeof value === "string";
+    case "date":
+      return typeof value === "string" && !isNaN(new Date(value).getTime());
+  }
+};
+
+/**
+ * Membaca cursor dari client. Cursor bisa dipalsukan, jadi setiap field
+ * dicek sesuai shape sebelum dipakai di query; yang tidak cocok ditolak
+ * dengan error "Invalid cursor".
+ */
+export const decodeCursor = <T extends CursorPayload>(
+  cursor: string | undefined,
+  shape: CursorShape<T>
+) => {
+  if (!cursor) return null;
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (
+    !payload ||
+    typeof payload !== "object" ||
+    !Object.entries(shape).every(([key, type]) =>
+      isCursorField(payload[key], type as CursorFieldType)
+    )
+  ) {
+    throw new Error("Invalid cursor");
+  }
+  return payload as T;
+};
+
+// Batas atas limit untuk semua endpoint list; limit lebih besar dipotong
+export const MAX_PAGE_LIMIT = 50;
+
+const parseIntegerParam = (value: string | undefined, min: number) => {
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error("Invalid pagination query");
+  }
+  return number;
+};
+
+/**
+ * Membaca parameter paginasi dari query string. `cursor` diutamakan,
+ * `offset`/`page` tetap diterima untuk client lama. Nilai yang bukan
+ * bilangan bulat ditolak dengan error "Invalid pagination query".
+ */
+export const parsePaginationQuery = (
+  c: Context,
+  defaultLimit = 10
+): PaginationQuery => {
+  const limit = parseIntegerParam(c.req.query("limit"), 1) ?? defaultLimit;
+  const cursor = c.req.query("cursor") || undefined;
+  const page = parseIntegerParam(c.req.query("page"), 1);
+  const offset = parseIntegerParam(c.req.query("offset"), 0);
+
+  return { limit: Math.min(limit, MAX_PAGE_LIMIT), cursor, page, offset };
+};
+
+/**
+ * Error paginasi dari parsePaginationQuery atau cursor yang tidak valid,
+ * dijawab controller dengan 400.
+ */
+export const isPaginationError = (error: any) =>
+  error?.message === "Invalid cursor" ||
+  error?.message === "Invalid pagination query";
+
+/**
+ * Jumlah baris yang dilewati untuk paginasi offset. Jika cursor dipakai,
+ * posisi sudah ditentukan oleh klausa where sehingga tidak ada yang dilewati.
+ */
+export const getSkip = (query: PaginationQuery) => {
+  if (query.cursor) return 0;
+  if (query.offset !== undefined) return query.offset;
+  if (query.page !== undefined) return (query.page - 1) * (query.limit ?? 10);
+  return 0;
+};
+
+/**
+ * Klausa where untuk baris setelah posisi { createdAt, id }.
+ * Urutan yang dipakai selalu (createdAt, id) dengan arah yang sama.
+ */
+export const afterCreatedAt = (
+  position: { createdAt: string; id: number },
+  direction: "asc" | "desc" = "desc"
+) => {
+  const createdAt = new Date(position.createdAt);
+  const op = direction === "desc" ? "lt" : "gt";
+  return {
+    OR: [
+      { createdAt: { [op]: createdAt } },
+      { createdAt, id: { [op]: position.id } },
+    ],
+  };
+};
+
+/**
+ * Klausa where untuk melanjutkan dari cursor { createdAt, id }.
+ */
+export const createdAtCursorWhere = (
+  cursor?: string,
+  direction: "asc" | "desc" = "desc"
+) => {
+  const payload = decodeCursor<{ createdAt: string; id: number }>(cursor, {
+    createdAt: "date",
+    id: "integer",
+  });
+  if (!payload) return {};
+  return afterCreatedAt(payload, direction);
+};
+
+export const createdAtCursor = (row: { createdAt: Date; id: number }) => ({
+  createdAt: row.createdAt.toISOString(),
+  id: row.id,
+});
+
+/**
+ * Membungkus hasil query (diambil sebanyak limit + 1) ke dalam
+ * PaginatedResponse, lengkap dengan hasNext dan nextCursor.
+ */
+export const toPaginatedResponse = <Row, T = Row>(
+  rows: Row[],
+  query: PaginationQuery,
+  getCursor: (row: Row) => CursorPayload,
+  transform: (row: Row) => T = (row) => row as unknown as T
+): PaginatedResponse<T> => {
+  const limit = query.limit ?? 10;
+  const hasNext = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    data: pageRows.map(transform),
+    pagination: {
+      limit,
+      ...(query.cursor ? {} : { page: query.page, hasPrev: getSkip(query) > 0 }),
+      hasNext,
+      nextCursor: hasNext && last ? encodeCursor(getCursor(last)) : undefined,
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { Context } from "hono";
+import { getConnInfo } from "hono/bun";
+import { BlockList, isIP } from "node:net";
+
+/**
+ * Alamat proxy yang header X-Forwarded-For-nya dipercaya, dari env
+ * TRUSTED_PROXIES: daftar IP atau CIDR dipisah koma, misalnya
+ * "10.0.0.0/8,127.0.0.1". Kosong berarti aplikasi diakses langsung dan
+ * header itu diabaikan karena bisa diisi bebas oleh klien.
+ */
+const parseTrustedProxies = (value: string | undefined) => {
+  const list = new BlockList();
+  for (const entry of (value ?? "").split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const [address, prefix] = trimmed.split("/");
+    const family = isIP(address);
+    const bits = prefix === undefined ? (family === 6 ? 128 : 32) : +prefix;
+    if (!family || !Number.isInteger(bits) || bits < 0) {
+      throw new Error(`Invalid TRUSTED_PROXIES entry: ${trimmed}`);
+    }
+    list.addSubnet(address, bits, family === 6 ? "ipv6" : "ipv4");
+  }
+  return list;
+};
+
+const trustedProxies = parseTrustedProxies(process.env.TRUSTED_PROXIES);
+
+// Alamat IPv4 yang diterima lewat socket IPv6 berbentuk ::ffff:a.b.c.d
+const normalizeIp = (address: string) => {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : address;
+};
+
+const isTrustedProxy = (address: string) => {
+  const family = isIP(address);
+  if (!family) return false;
+  return trustedProxies.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+const getRemoteAddress = (c: Context) => {
+  try {
+    const address = getConnInfo(c).remote.address;
+    return address ? normalizeIp(address) : null;
+  } catch (error) {
+    // Tidak berjalan di Bun.serve (misalnya app.request saat testing)
+    return null;
+  }
+};
+
+/**
+ * Alamat IP klien. Header X-Forwarded-For hanya dibaca jika koneksi datang
+ * dari proxy di TRUSTED_PROXIES. Header dibaca dari kanan dan alamat
+ * pertama yang bukan proxy tepercaya dianggap klien, karena bagian kiri
+ * header bisa dipalsukan oleh klien.
+ */
+export const getClientIp = (c: Context): string | null => {
+  const remote = getRemoteAddress(c);
+  if (!remote || !isTrustedProxy(remote)) return remote;
+
+  const forwarded = (c.req.header("X-Forwarded-For") ?? "")
+    .split(",")
+    .map((address) => normalizeIp(address.trim()));
+  let client = remote;
+  for (let i = forwarded.length - 1; i >= 0; i--) {
+    if (!isIP(forwarded[i])) break;
+    client = forwarded[i];
+    if (!isTrustedProxy(client)) break;
+  }
+  return client;
+};
+
+// Informasi perangkat yang dicatat untuk setiap sesi login
+export const getClientInfo = (c: Context) => ({
+  userAgent: c.req.header("User-Agent")?.slice(0, 512) ?? null,
+  ipAddress: getClientIp(c),
+});
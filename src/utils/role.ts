@@ -0,0 +1,14 @@
+import { UserRole } from "../model/user.types";
+
+// Role yang lebih tinggi mewarisi semua hak role di bawahnya
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2,
+};
+
+/**
+ * Memeriksa apakah role memiliki hak minimal `required`.
+ */
+export const hasRole = (role: string | undefined, required: UserRole) =>
+  (ROLE_RANK[role as UserRole] ?? -1) >= ROLE_RANK[required];
@@ -0,0 +1,14 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Membuat token acak yang aman untuk dikirim ke user (link email, dsb).
+ */
+export const generateToken = (bytes = 32) =>
+  randomBytes(bytes).toString("base64url");
+
+/**
+ * Hash token untuk disimpan di database. Token asli tidak pernah disimpan,
+ * sehingga kebocoran database tidak membocorkan token yang masih berlaku.
+ */
+export const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
@@ -0,0 +1,130 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// TOTP (RFC 6238) di atas HOTP (RFC 4226), tanpa layanan eksternal
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface TotpOptions {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+  // Panjang time step dalam detik
+  period?: number;
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const base32Encode = (data: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(data)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+/**
+ * Decode base32 tanpa padding. Huruf kecil, spasi dan "=" diterima karena
+ * secret sering diketik ulang secara manual.
+ */
+export const base32Decode = (input: string) => {
+  const clean = input.replace(/[\s=]/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error("Invalid base32 string");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// Secret 160 bit sesuai rekomendasi RFC 4226, dalam bentuk base32
+export const generateTotpSecret = () => base32Encode(randomBytes(20));
+
+export const hotp = (
+  secret: Buffer,
+  counter: number,
+  { algorithm = "sha1", digits = 6 }: TotpOptions = {}
+) => {
+  // Counter 64 bit big-endian; ditulis per 32 bit agar tidak butuh BigInt
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const hmac = createHmac(algorithm, secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % Math.pow(10, digits)).padStart(digits, "0");
+};
+
+export const totpStep = (time: number, period = 30) =>
+  Math.floor(time / 1000 / period);
+
+/**
+ * Kode TOTP untuk waktu tertentu (milidetik, default sekarang).
+ */
+export const totp = (
+  secret: Buffer,
+  time = Date.now(),
+  options: TotpOptions = {}
+) => hotp(secret, totpStep(time, options.period), options);
+
+/**
+ * Mencocokkan kode dengan time step sekarang dan `window` step sebelum dan
+ * sesudahnya untuk menoleransi selisih jam. Mengembalikan time step yang
+ * cocok (untuk mencegah kode dipakai ulang) atau null.
+ */
+export const verifyTotp = (
+  secret: Buffer,
+  code: string,
+  { window = 1, time = Date.now(), ...options }: TotpOptions & {
+    window?: number;
+    time?: number;
+  } = {}
+) => {
+  const digits = options.digits ?? 6;
+  if (code.length !== digits || !/^\d+$/.test(code)) return null;
+
+  const current = totpStep(time, options.period);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = hotp(secret, step, options);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+/**
+ * URI untuk QR code aplikasi authenticator, format Key Uri dari Google
+ * Authenticator: otpauth://totp/Issuer:akun?secret=...&issuer=...
+ */
+export const otpauthUri = (
+  secret: string,
+  account: string,
+  issuer: string,
+  { algorithm = "sha1", digits = 6, period = 30 }: TotpOptions = {}
+) => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: algorithm.toUpperCase(),
+    digits: String(digits),
+    period: String(period),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,36 @@
+// Urutan penting: UA Edge dan Opera juga memuat "Chrome", UA Chrome juga
+// memuat "Safari"
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+const findName = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+/**
+ * Label perangkat yang mudah dibaca dari header User-Agent, misalnya
+ * "Chrome on Windows". Klien yang tidak dikenali (aplikasi, curl) memakai
+ * User-Agent aslinya.
+ */
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+
+  const browser = findName(userAgent, BROWSERS);
+  const os = findName(userAgent, OPERATING_SYSTEMS);
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? userAgent.split(" ")[0];
+};
@@ -0,0 +1,168 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  HttpLinkPreviewFetcher,
+  parseLinkPreview,
+} from "../../src/application/link-preview";
+
+const PAGE = `<!doctype html>
+<html><head>
+<title>Judul &amp; Tag</title>
+<meta property="og:title" content="Judul OG">
+<meta name="description" content='Deskripsi &quot;singkat&quot;'>
+<meta property="og:image" content="/img/cover.png">
+<meta property="og:site_name" content="Contoh">
+</head><body></body></html>`;
+
+describe("parseLinkPreview", () => {
+  test("membaca tag OpenGraph dan mengubah URL gambar menjadi absolut", () => {
+    expect(parseLinkPreview(PAGE, "https://example.com/a/b")).toEqual({
+      title: "Judul OG",
+      description: 'Deskripsi "singkat"',
+      imageUrl: "https://example.com/img/cover.png",
+      siteName: "Contoh",
+    });
+  });
+
+  test("memakai <title> dan hostname jika tag OpenGraph tidak ada", () => {
+    const html = "<html><head><title>Judul &amp; Tag</title></head></html>";
+    expect(parseLinkPreview(html, "https://example.com/")).toEqual({
+      title: "Judul & Tag",
+      description: null,
+      imageUrl: null,
+      siteName: "example.com",
+    });
+  });
+
+  test("twitter card dipakai jika og:* tidak ada", () => {
+    const html = `<meta name="twitter:title" content="Kartu">
+      <meta name="twitter:image" content="https://cdn.example.com/x.jpg">`;
+    const preview = parseLinkPreview(html, "https://example.com/");
+    expect(preview.title).toBe("Kartu");
+    expect(preview.imageUrl).toBe("https://cdn.example.com/x.jpg");
+  });
+});
+
+describe("HttpLinkPreviewFetcher", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const { pathname } = new URL(req.url);
+        const html = { "Content-Type": "text/html; charset=utf-8" };
+
+        if (pathname === "/page") return new Response(PAGE, { headers: html });
+        if (pathname === "/redirect") {
+          return new Response(null, {
+            status: 302,
+            headers: { Location: "/page" },
+          });
+        }
+        if (pathname === "/json") {
+          return Response.json({ title: "bukan html" });
+        }
+        if (pathname === "/big") {
+          const body =
+            "<title>Awal</title>" +
+            " ".repeat(64 * 1024) +
+            '<meta property="og:title" content="Terlambat">';
+          return new Response(body, { headers: html });
+        }
+        if (pathname === "/slow") {
+          await Bun.sleep(1000);
+          return new Response(PAGE, { headers: html });
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const localFetcher = (options = {}) =>
+    new HttpLinkPreviewFetcher({ allowPrivateAddresses: true, ...options });
+
+  test("mengambil dan mem-parse halaman HTML", async () => {
+    const preview = await localFetcher().fetch(`${baseUrl}/page`);
+    expect(preview?.title).toBe("Judul OG");
+    expect(preview?.imageUrl).toBe(`${baseUrl}/img/cover.png`);
+  });
+
+  test("mengikuti redirect", async () => {
+    const preview = await localFetcher().fetch(`${baseUrl}/redirect`);
+    expect(preview?.title).toBe("Judul OG");
+  });
+
+  test("berhenti setelah batas redirect", async () => {
+    const fetcher = localFetcher({ maxRedirects: 0 });
+    expect(await fetcher.fetch(`${baseUrl}/redirect`)).toBeNull();
+  });
+
+  test("mengembalikan null untuk respons non-HTML dan non-2xx", async () => {
+    expect(await localFetcher().fetch(`${baseUrl}/json`)).toBeNull();
+    expect(await localFetcher().fetch(`${baseUrl}/missing`)).toBeNull();
+  });
+
+  test("hanya membaca body sampai maxBytes", async () => {
+    const fetcher = localFetcher({ maxBytes: 1024 });
+    const preview = await fetcher.fetch(`${baseUrl}/big`);
+    expect(preview?.title).toBe("Awal");
+  });
+
+  test("membatalkan request yang melewati timeout", async () => {
+    const fetcher = localFetcher({ timeoutMs: 100 });
+    const started = Date.now();
+    await expect(fetcher.fetch(`${baseUrl}/slow`)).rejects.toThrow();
+    expect(Date.now() - started).toBeLessThan(900);
+  });
+
+  test("timeout juga berlaku untuk resolve DNS", async () => {
+    const fetcher = new HttpLinkPreviewFetcher({
+      timeoutMs: 100,
+      // Resolver yang tidak pernah menjawab
+      resolve: () => new Promise(() => undefined),
+    });
+    const started = Date.now();
+    await expect(fetcher.fetch("http://lambat.example/")).rejects.toThrow(
+      "Link preview timed out"
+    );
+    expect(Date.now() - started).toBeLessThan(900);
+  });
+
+  test("menolak hostname yang resolve ke alamat private", async () => {
+    const fetcher = new HttpLinkPreviewFetcher({
+      resolve: async () => [
+        { address: "93.184.215.14", family: 4 },
+        { address: "10.0.0.1", family: 4 },
+      ],
+    });
+    await expect(fetcher.fetch("http://campur.example/")).rejects.toThrow(
+      "Blocked URL address"
+    );
+  });
+
+  test("menolak alamat private dan loopback", async () => {
+    const fetcher = new HttpLinkPreviewFetcher();
+    const port = server.port;
+    for (const url of [
+      `${baseUrl}/page`,
+      `http://localhost:${port}/page`,
+      `http://[::1]:${port}/page`,
+      `http://[::ffff:127.0.0.1]:${port}/page`,
+      "http://169.254.169.254/latest/meta-data/",
+    ]) {
+      await expect(fetcher.fetch(url)).rejects.toThrow("Blocked URL address");
+    }
+  });
+
+  test("menolak protokol selain http(s)", async () => {
+    await expect(localFetcher().fetch("file:///etc/passwd")).rejects.toThrow(
+      "Unsupported URL protocol"
+    );
+  });
+});
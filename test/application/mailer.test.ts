@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import net from "node:net";
+import { buildMimeMessage, SmtpTransport } from "../../src/application/mailer";
+
+describe("buildMimeMessage", () => {
+  test("menolak alamat yang menyisipkan header", () => {
+    for (const to of [
+      "a@example.com\r\nBcc: b@example.com",
+      "a@example.com\nRCPT TO:<b@example.com>",
+      "a@example.com> <b@example.com",
+      "bukan-alamat",
+    ]) {
+      expect(() =>
+        buildMimeMessage("Twist <no-reply@example.com>", {
+          to,
+          subject: "Halo",
+          text: "Isi",
+        })
+      ).toThrow("Invalid email address");
+    }
+  });
+
+  test("header From dan To memakai alamat yang valid", () => {
+    const mime = buildMimeMessage("Twist <no-reply@example.com>", {
+      to: "user@example.com",
+      subject: "Halo",
+      text: "Isi",
+    });
+    expect(mime).toContain("From: Twist <no-reply@example.com>\r\n");
+    expect(mime).toContain("To: user@example.com\r\n");
+  });
+});
+
+describe("SmtpTransport", () => {
+  // Server SMTP palsu tanpa STARTTLS; mencatat semua perintah yang diterima
+  let server: net.Server;
+  let port: number;
+  const commands: string[] = [];
+
+  beforeAll(async () => {
+    server = net.createServer((socket) => {
+      socket.write("220 stub ESMTP\r\n");
+      let buffer = "";
+      let inData = false;
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith("EHLO")) {
+            socket.write("250-stub\r\n250 AUTH PLAIN\r\n");
+          } else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") {
+            socket.end("221 bye\r\n");
+          } else {
+            socket.write("250 ok\r\n");
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const message = { to: "user@example.com", subject: "Halo", text: "Isi" };
+
+  test("mengirim email tanpa autentikasi", async () => {
+    commands.length = 0;
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+    });
+
+    await transport.send(message);
+    expect(commands).toContain("RCPT TO:<user@example.com>");
+    expect(commands).toContain("QUIT");
+  });
+
+  test("tidak mengirim AUTH lewat koneksi tanpa TLS", async () => {
+    commands.length = 0;
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      user: "user",
+      pass: "rahasia",
+    });
+
+    await expect(transport.send(message)).rejects.toThrow(
+      "SMTP server does not support TLS"
+    );
+    expect(commands.some((line) => line.startsWith("AUTH"))).toBe(false);
+  });
+
+  test("menolak alamat tidak valid sebelum terhubung", async () => {
+    commands.length = 0;
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port,
+      secure: false,
+    });
+
+    await expect(
+      transport.send({ ...message, to: "a@example.com\r\nDATA" })
+    ).rejects.toThrow("Invalid email address");
+    expect(commands).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, mock, test } from "bun:test";
+
+// Pengganti prisma di memori, hanya untuk query filter yang dipakai
+// applyToPage
+const filters = [
+  {
+    userId: 1,
+    keyword: "foobar",
+    wholeWord: false,
+    scopes: ["home"],
+    action: "warn",
+    expiresAt: null,
+  },
+  {
+    userId: 1,
+    keyword: "bar",
+    wholeWord: false,
+    scopes: ["home"],
+    action: "hide",
+    expiresAt: null,
+  },
+  {
+    userId: 3,
+    keyword: "foo",
+    wholeWord: false,
+    scopes: ["home"],
+    action: "warn",
+    expiresAt: null,
+  },
+  {
+    userId: 3,
+    keyword: "baz",
+    wholeWord: false,
+    scopes: ["home"],
+    action: "hide",
+    expiresAt: null,
+  },
+];
+
+const fakePrisma = {
+  keywordFilter: {
+    findMany: async ({ where }: { where: { userId: number } }) =>
+      filters.filter((filter) => filter.userId === where.userId),
+  },
+};
+
+mock.module("../../src/application/database", () => ({ prisma: fakePrisma }));
+
+let KeywordFilterService: typeof import(
+  "../../src/services/keyword-filter.service"
+).KeywordFilterService;
+
+beforeAll(async () => {
+  ({ KeywordFilterService } = await import(
+    "../../src/services/keyword-filter.service"
+  ));
+});
+
+const page = (contents: string[]) => ({
+  data: contents.map((content, index) => ({
+    id: index + 1,
+    userId: 2,
+    content,
+  })),
+  pagination: { limit: 10, hasNext: false },
+});
+
+describe("KeywordFilterService.applyToPage", () => {
+  test("hide menang atas warn walaupun keyword tumpang tindih", async () => {
+    const result = await KeywordFilterService.applyToPage(
+      1,
+      "home",
+      page(["foobar", "barbar", "halo"])
+    );
+
+    expect(result.data.map((item) => item.content)).toEqual(["halo"]);
+  });
+
+  test("warn tetap menandai item yang tidak cocok dengan hide", async () => {
+    const result = await KeywordFilterService.applyToPage(
+      3,
+      "home",
+      page(["foobar"])
+    );
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0].filtered).toBe(true);
+    expect(result.data[0].filteredKeywords).toEqual(["foo"]);
+  });
+});
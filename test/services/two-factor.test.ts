@@ -0,0 +1,235 @@
+import { beforeAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import bcrypt from "bcrypt";
+import { base32Decode, totp } from "../../src/utils/totp";
+
+// Pengganti prisma di memori, hanya untuk query yang dipakai alur 2FA dan
+// pembuatan sesi
+type Row = Record<string, any>;
+
+const matches = (row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === "OR") {
+      return (condition as Row[]).some((branch) => matches(row, branch));
+    }
+    if (condition !== null && typeof condition === "object") {
+      if ("lt" in condition) {
+        return row[key] !== null && row[key] < condition.lt;
+      }
+      return false;
+    }
+    return (row[key] ?? null) === condition;
+  });
+
+const applyData = (row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    row[key] =
+      value !== null && typeof value === "object" && "increment" in value
+        ? row[key] + value.increment
+        : value;
+  }
+  return row;
+};
+
+const createTable = () => {
+  const rows: Row[] = [];
+  let nextId = 1;
+  return {
+    rows,
+    create: async ({ data }: Row) => {
+      const row = { id: nextId++, ...data };
+      rows.push(row);
+      return row;
+    },
+    createMany: async ({ data }: Row) => {
+      for (const item of data) rows.push({ id: nextId++, ...item });
+      return { count: data.length };
+    },
+    findUnique: async ({ where }: Row) =>
+      rows.find((row) => matches(row, where)) ?? null,
+    findFirst: async ({ where }: Row) =>
+      rows.find((row) => matches(row, where)) ?? null,
+    count: async ({ where }: Row) =>
+      rows.filter((row) => matches(row, where)).length,
+    update: async ({ where, data }: Row) => {
+      const row = rows.find((item) => matches(item, where));
+      if (!row) throw new Error("Record not found");
+      return applyData(row, data);
+    },
+    updateMany: async ({ where, data }: Row) => {
+      const matched = rows.filter((row) => matches(row, where));
+      matched.forEach((row) => applyData(row, data));
+      return { count: matched.length };
+    },
+    deleteMany: async ({ where }: Row) => {
+      const before = rows.length;
+      const kept = rows.filter((row) => !matches(row, where));
+      rows.splice(0, rows.length, ...kept);
+      return { count: before - kept.length };
+    },
+  };
+};
+
+const db: Row = {};
+const fakePrisma: Row = {
+  $transaction: async (input: any) =>
+    typeof input === "function" ? input(fakePrisma) : Promise.all(input),
+};
+
+mock.module("../../src/application/database", () => ({ prisma: fakePrisma }));
+
+const PASSWORD = "rahasia123";
+const client = { userAgent: "bun-test", ipAddress: "127.0.0.1" };
+
+type TwoFactorModule = typeof import("../../src/services/two-factor.service");
+
+let TwoFactorService: TwoFactorModule["TwoFactorService"];
+let auth: typeof import("../../src/services/auth.service");
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = "test-secret";
+  ({ TwoFactorService } = await import(
+    "../../src/services/two-factor.service"
+  ));
+  auth = await import("../../src/services/auth.service");
+});
+
+beforeEach(async () => {
+  for (const table of ["user", "recoveryCode", "session", "refreshToken"]) {
+    db[table] = createTable();
+    fakePrisma[table] = db[table];
+  }
+  await db.user.create({
+    data: {
+      username: "budi",
+      email: "budi@example.com",
+      passwordHash: await bcrypt.hash(PASSWORD, 4),
+      role: "user",
+      isActive: true,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+      totpFailedAttempts: 0,
+      totpLockedUntil: null,
+    },
+  });
+});
+
+// Enrol lalu konfirmasi dengan kode saat ini; mengembalikan secret, kode
+// yang dipakai untuk konfirmasi, dan kode cadangan
+const enableTwoFactor = async () => {
+  const { secret, otpauthUri } = await TwoFactorService.enroll(1);
+  expect(otpauthUri).toContain(`secret=${secret}`);
+  expect(await TwoFactorService.isEnabled(1)).toBe(false);
+
+  const confirmCode = totp(base32Decode(secret));
+  const { recoveryCodes } = await TwoFactorService.confirm(1, confirmCode);
+  return { secret: base32Decode(secret), confirmCode, recoveryCodes };
+};
+
+const startLogin = async () => {
+  const result = await auth.loginUserService(
+    { username: "budi", password: PASSWORD },
+    client
+  );
+  if (!result.twoFactorRequired) throw new Error("2FA tidak diminta");
+  return result.twoFactorToken;
+};
+
+describe("two-factor authentication", () => {
+  test("konfirmasi enrol mengaktifkan 2FA dan kode cadangan", async () => {
+    const { recoveryCodes } = await enableTwoFactor();
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(new Set(recoveryCodes).size).toBe(10);
+    expect(await TwoFactorService.getStatus(1)).toMatchObject({
+      enabled: true,
+      remainingRecoveryCodes: 10,
+    });
+    // Hanya hash kode cadangan yang disimpan
+    expect(
+      db.recoveryCode.rows.some((row: Row) =>
+        recoveryCodes.includes(row.codeHash)
+      )
+    ).toBe(false);
+  });
+
+  test("konfirmasi dengan kode salah tidak mengaktifkan 2FA", async () => {
+    await TwoFactorService.enroll(1);
+    await expect(TwoFactorService.confirm(1, "000000")).rejects.toThrow(
+      "Invalid code"
+    );
+    expect(await TwoFactorService.isEnabled(1)).toBe(false);
+  });
+
+  test("login dua langkah dengan kode TOTP", async () => {
+    const { secret, confirmCode } = await enableTwoFactor();
+    const twoFactorToken = await startLogin();
+    expect(db.session.rows).toHaveLength(0);
+
+    await expect(
+      auth.completeTwoFactorLoginService(
+        { twoFactorToken, code: "000000" },
+        client
+      )
+    ).rejects.toThrow("Kode autentikasi salah");
+
+    // Kode yang sudah dipakai saat konfirmasi tidak bisa dipakai ulang
+    await expect(
+      auth.completeTwoFactorLoginService(
+        { twoFactorToken, code: confirmCode },
+        client
+      )
+    ).rejects.toThrow("Kode autentikasi salah");
+
+    const session = await auth.completeTwoFactorLoginService(
+      { twoFactorToken, code: totp(secret, Date.now() + 30000) },
+      client
+    );
+    expect(session.user.username).toBe("budi");
+    expect(session.token).toBeString();
+    expect(session.refreshToken).toBeString();
+    expect(db.session.rows).toHaveLength(1);
+  });
+
+  test("kode cadangan hanya bisa dipakai sekali", async () => {
+    const { recoveryCodes } = await enableTwoFactor();
+    // Kode cadangan boleh diketik tanpa tanda hubung dan huruf besar
+    const code = recoveryCodes[0].replace("-", "").toUpperCase();
+
+    const session = await auth.completeTwoFactorLoginService(
+      { twoFactorToken: await startLogin(), code },
+      client
+    );
+    expect(session.user.id).toBe(1);
+    const status = await TwoFactorService.getStatus(1);
+    expect(status.remainingRecoveryCodes).toBe(9);
+
+    await expect(
+      auth.completeTwoFactorLoginService(
+        { twoFactorToken: await startLogin(), code },
+        client
+      )
+    ).rejects.toThrow("Kode autentikasi salah");
+  });
+
+  test("token selain token 2FA ditolak", async () => {
+    await enableTwoFactor();
+    await expect(
+      auth.completeTwoFactorLoginService(
+        { twoFactorToken: "bukan-token", code: "123456" },
+        client
+      )
+    ).rejects.toThrow("Token 2FA tidak valid atau sudah kedaluwarsa");
+  });
+
+  test("verifikasi dikunci setelah terlalu banyak kode salah", async () => {
+    await enableTwoFactor();
+    for (let i = 0; i < 5; i++) {
+      expect(await TwoFactorService.verifyCode(1, "000000")).toBe(false);
+    }
+    await expect(TwoFactorService.verifyCode(1, "000000")).rejects.toThrow(
+      "Too many attempts"
+    );
+  });
+});
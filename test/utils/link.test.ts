@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { extractFirstUrl, isPrivateAddress } from "../../src/utils/link";
+
+describe("extractFirstUrl", () => {
+  test("mengambil URL pertama tanpa tanda baca di belakangnya", () => {
+    expect(extractFirstUrl("lihat https://example.com/a?b=1). keren")).toBe(
+      "https://example.com/a?b=1"
+    );
+    expect(extractFirstUrl("tanpa tautan")).toBeNull();
+  });
+});
+
+describe("isPrivateAddress", () => {
+  test.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "ff02::1",
+    // IPv4-mapped, termasuk bentuk hex dari parser URL
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "[::ffff:a9fe:a9fe]",
+    // NAT64, 6to4 dan Teredo membawa alamat IPv4 di dalamnya
+    "64:ff9b::a9fe:a9fe",
+    "2002:7f00:1::1",
+    "2001:0:4136:e378::1",
+    "bukan-ip",
+  ])("memblokir %s", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  test.each(["8.8.8.8", "1.1.1.1", "2606:4700:4700::1111"])(
+    "mengizinkan %s",
+    (ip) => {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { Context } from "hono";
+import {
+  decodeCursor,
+  encodeCursor,
+  parsePaginationQuery,
+} from "../../src/utils/pagination";
+
+const contextWithQuery = (query: string) => {
+  const params = new URLSearchParams(query);
+  return {
+    req: { query: (key: string) => params.get(key) ?? undefined },
+  } as unknown as Context;
+};
+
+describe("parsePaginationQuery", () => {
+  test("memakai limit default jika tidak diisi", () => {
+    expect(parsePaginationQuery(contextWithQuery(""), 20)).toEqual({
+      limit: 20,
+      cursor: undefined,
+      page: undefined,
+      offset: undefined,
+    });
+  });
+
+  test("memotong limit yang terlalu besar", () => {
+    expect(parsePaginationQuery(contextWithQuery("limit=1000000")).limit).toBe(
+      50
+    );
+  });
+
+  test.each(["limit=abc", "limit=0", "limit=1.5", "page=0", "offset=-1"])(
+    "menolak %s",
+    (query) => {
+      expect(() => parsePaginationQuery(contextWithQuery(query))).toThrow(
+        "Invalid pagination query"
+      );
+    }
+  );
+
+  test("membaca page dan offset", () => {
+    const query = parsePaginationQuery(contextWithQuery("page=2&offset=0"));
+    expect(query.page).toBe(2);
+    expect(query.offset).toBe(0);
+  });
+});
+
+describe("decodeCursor", () => {
+  const shape = { createdAt: "date", id: "integer" } as const;
+
+  test("mengembalikan payload yang sesuai shape", () => {
+    const payload = { createdAt: "2025-07-01T00:00:00.000Z", id: 7 };
+    expect(decodeCursor(encodeCursor(payload), shape)).toEqual(payload);
+    expect(decodeCursor(undefined, shape)).toBeNull();
+  });
+
+  test.each([
+    ["bukan base64 JSON", "%%%"],
+    ["createdAt bukan tanggal", encodeCursor({ createdAt: "kemarin", id: 1 })],
+    ["id bukan integer", encodeCursor({ createdAt: "2025-07-01", id: "1" })],
+    ["id pecahan", encodeCursor({ createdAt: "2025-07-01", id: 1.5 })],
+    ["field hilang", encodeCursor({ id: 1 })],
+  ])("menolak cursor: %s", (_, cursor) => {
+    expect(() => decodeCursor(cursor, shape)).toThrow("Invalid cursor");
+  });
+});
@@ -0,0 +1,43 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+
+let app: Hono;
+
+beforeAll(async () => {
+  process.env.TRUSTED_PROXIES = "10.0.0.0/8, ::1";
+  const { getClientIp } = await import("../../src/utils/request");
+  app = new Hono().get("/", (c) => c.text(getClientIp(c) ?? "-"));
+});
+
+// Meniru koneksi Bun.serve dari alamat tertentu
+const requestFrom = async (address: string, forwardedFor?: string) => {
+  const headers: Record<string, string> = forwardedFor
+    ? { "X-Forwarded-For": forwardedFor }
+    : {};
+  const res = await app.request("/", { headers }, {
+    server: { requestIP: () => ({ address, family: "IPv4", port: 1234 }) },
+  });
+  return res.text();
+};
+
+describe("getClientIp", () => {
+  test("mengabaikan header dari klien langsung", async () => {
+    expect(await requestFrom("203.0.113.7", "1.2.3.4")).toBe("203.0.113.7");
+  });
+
+  test("membaca X-Forwarded-For dari proxy tepercaya", async () => {
+    expect(await requestFrom("10.0.0.2", "1.2.3.4")).toBe("1.2.3.4");
+    expect(await requestFrom("::ffff:10.0.0.2", "1.2.3.4")).toBe("1.2.3.4");
+  });
+
+  test("alamat palsu di kiri header tidak dipakai", async () => {
+    expect(await requestFrom("10.0.0.2", "6.6.6.6, 1.2.3.4, 10.0.0.9")).toBe(
+      "1.2.3.4"
+    );
+  });
+
+  test("memakai alamat proxy jika header kosong atau tidak valid", async () => {
+    expect(await requestFrom("10.0.0.2")).toBe("10.0.0.2");
+    expect(await requestFrom("10.0.0.2", "bukan-ip")).toBe("10.0.0.2");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+  base32Decode,
+  base32Encode,
+  hotp,
+  otpauthUri,
+  totp,
+  TotpAlgorithm,
+  verifyTotp,
+} from "../../src/utils/totp";
+
+// Vektor uji dari RFC 6238 Appendix B: secret ASCII dengan panjang sesuai
+// algoritma, 8 digit, period 30 detik
+const RFC_SECRETS: Record<TotpAlgorithm, Buffer> = {
+  sha1: Buffer.from("12345678901234567890"),
+  sha256: Buffer.from("12345678901234567890123456789012"),
+  sha512: Buffer.from(
+    "1234567890123456789012345678901234567890123456789012345678901234"
+  ),
+};
+
+const RFC_VECTORS: [number, Record<TotpAlgorithm, string>][] = [
+  [59, { sha1: "94287082", sha256: "46119246", sha512: "90693936" }],
+  [1111111109, { sha1: "07081804", sha256: "68084774", sha512: "25091201" }],
+  [1111111111, { sha1: "14050471", sha256: "67062674", sha512: "99943326" }],
+  [1234567890, { sha1: "89005924", sha256: "91819424", sha512: "93441116" }],
+  [2000000000, { sha1: "69279037", sha256: "90698825", sha512: "38618901" }],
+  [20000000000, { sha1: "65353130", sha256: "77737706", sha512: "47863826" }],
+];
+
+describe("totp", () => {
+  for (const algorithm of ["sha1", "sha256", "sha512"] as const) {
+    test(`vektor RFC 6238 ${algorithm}`, () => {
+      for (const [seconds, expected] of RFC_VECTORS) {
+        expect(
+          totp(RFC_SECRETS[algorithm], seconds * 1000, { algorithm, digits: 8 })
+        ).toBe(expected[algorithm]);
+      }
+    });
+  }
+
+  test("vektor RFC 4226 untuk HOTP 6 digit", () => {
+    const codes = [0, 1, 2, 3, 4].map((counter) =>
+      hotp(RFC_SECRETS.sha1, counter)
+    );
+    expect(codes).toEqual(["755224", "287082", "359152", "969429", "338314"]);
+  });
+});
+
+describe("verifyTotp", () => {
+  const secret = RFC_SECRETS.sha1;
+  const time = 1111111111 * 1000;
+
+  test("mengembalikan time step yang cocok dalam window", () => {
+    const step = Math.floor(time / 1000 / 30);
+    expect(verifyTotp(secret, totp(secret, time), { time })).toBe(step);
+    expect(verifyTotp(secret, totp(secret, time - 30000), { time })).toBe(
+      step - 1
+    );
+    expect(verifyTotp(secret, totp(secret, time + 30000), { time })).toBe(
+      step + 1
+    );
+  });
+
+  test("menolak kode di luar window atau dengan format salah", () => {
+    expect(verifyTotp(secret, totp(secret, time - 90000), { time })).toBeNull();
+    expect(verifyTotp(secret, "12345", { time })).toBeNull();
+    expect(verifyTotp(secret, "12a456", { time })).toBeNull();
+  });
+});
+
+describe("base32", () => {
+  test("encode dan decode bolak-balik", () => {
+    const data = Buffer.from("12345678901234567890");
+    const encoded = base32Encode(data);
+    expect(encoded).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(encoded.toLowerCase())).toEqual(data);
+    expect(base32Decode("GEZD GNBV GY3T QOJQ GEZD GNBV GY3T QOJQ==")).toEqual(
+      data
+    );
+  });
+
+  test("menolak karakter di luar alfabet", () => {
+    expect(() => base32Decode("GEZD1")).toThrow("Invalid base32 string");
+  });
+});
+
+test("otpauthUri memakai format Key Uri", () => {
+  expect(otpauthUri("ABC", "a@example.com", "Twist")).toBe(
+    "otpauth://totp/Twist:a%40example.com?secret=ABC&issuer=Twist" +
+      "&algorithm=SHA1&digits=6&period=30"
+  );
+});